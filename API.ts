@@ -0,0 +1,55 @@
+import { EventRef } from 'obsidian';
+import { TimerState } from './PomoTimer';
+import { SessionRecord } from './SessionLog';
+
+/**
+ * Point-in-time view of the timer for scripts and other plugins. Times are
+ * in seconds; `mode` and `state` are TimerState names such as "Work".
+ */
+export interface PomodianSnapshot {
+    state: keyof typeof TimerState;
+    mode: keyof typeof TimerState;
+    modeLabel: string;
+    remaining: number;
+    total: number;
+    isRunning: boolean;
+    isSessionComplete: boolean;
+    completedPomodoros: number;
+    cycle: {
+        position: number;
+        length: number;
+    };
+    profileId: string;
+    linkedTask: string | null;
+    category: string | null;
+}
+
+/**
+ * Exposed as `app.plugins.plugins.pomodian.api`. Commands return false when
+ * they don't apply to the current state (e.g. pausing an idle timer).
+ */
+export interface PomodianApi {
+    start(mode?: TimerState): boolean;
+    pause(): boolean;
+    resume(): boolean;
+    reset(): void;
+    skip(): void;
+    getState(): TimerState;
+    getSnapshot(): PomodianSnapshot;
+}
+
+export const POMODIAN_EVENTS = {
+    start: 'pomodian:start',
+    tick: 'pomodian:tick',
+    complete: 'pomodian:complete',
+    stateChange: 'pomodian:state-change'
+} as const;
+
+declare module 'obsidian' {
+    interface Workspace {
+        on(name: 'pomodian:start', callback: (snapshot: PomodianSnapshot) => unknown, ctx?: unknown): EventRef;
+        on(name: 'pomodian:tick', callback: (snapshot: PomodianSnapshot) => unknown, ctx?: unknown): EventRef;
+        on(name: 'pomodian:complete', callback: (snapshot: PomodianSnapshot, record: SessionRecord | null) => unknown, ctx?: unknown): EventRef;
+        on(name: 'pomodian:state-change', callback: (snapshot: PomodianSnapshot) => unknown, ctx?: unknown): EventRef;
+    }
+}
@@ -0,0 +1,136 @@
+import { App, TFile, normalizePath, setIcon } from 'obsidian';
+import { PomodoroSettings } from './PomoTimer';
+import { TimerDisplayState, applyModeColor } from './TimerDisplay';
+
+export type BreakPromptStyle = 'off' | 'notification' | 'overlay';
+
+/**
+ * relaxed: close, skip and postpone; moderate: skip and postpone once;
+ * strict: nothing until the break is over.
+ */
+export type BreakStrictness = 'relaxed' | 'moderate' | 'strict';
+
+const ROTATE_INTERVAL_MS = 30000;
+
+export interface BreakPromptActions {
+    skip: () => void;
+    postpone: () => void;
+    close: () => void;
+}
+
+export interface BreakPromptOptions {
+    canSkip: boolean;
+    canPostpone: boolean;
+    canClose: boolean;
+    postponeMinutes: number;
+}
+
+/**
+ * Break suggestions from the settings list, or from the list items (or
+ * plain lines) of a vault note when one is configured.
+ */
+export async function loadBreakSuggestions(app: App, settings: PomodoroSettings): Promise<string[]> {
+    let source = settings.breakSuggestions;
+
+    if (settings.breakSuggestionsFile) {
+        const file = app.vault.getAbstractFileByPath(normalizePath(settings.breakSuggestionsFile));
+        if (file instanceof TFile) {
+            source = await app.vault.cachedRead(file);
+        } else {
+            console.warn(`Break suggestions note not found: ${settings.breakSuggestionsFile}`);
+        }
+    }
+
+    return source.split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#') && line !== '---')
+        .map(line => line.replace(/^([-*+]|\d+\.)\s+(\[.\]\s+)?/, ''));
+}
+
+/**
+ * Nudges away from the keyboard during breaks, either as a small card
+ * in the corner or as an overlay covering the whole window.
+ */
+export class BreakPrompt {
+    private actions: BreakPromptActions;
+    private el: HTMLElement | null = null;
+    private modeEl: HTMLElement;
+    private timeEl: HTMLElement;
+    private suggestionEl: HTMLElement;
+    private suggestions: string[] = [];
+    private suggestionIndex = 0;
+    private rotateInterval: number | null = null;
+
+    constructor(actions: BreakPromptActions) {
+        this.actions = actions;
+    }
+
+    isVisible(): boolean {
+        return this.el !== null;
+    }
+
+    show(style: BreakPromptStyle, suggestions: string[], options: BreakPromptOptions, state: TimerDisplayState) {
+        this.hide();
+        if (style === 'off') return;
+
+        const isOverlay = style === 'overlay';
+        this.el = activeDocument.body.createDiv({ cls: isOverlay ? 'pomodoro-break-overlay' : 'pomodoro-notification' });
+        const content = isOverlay ? this.el.createDiv({ cls: 'pomodoro-break-overlay-content' }) : this.el;
+
+        this.modeEl = content.createDiv({ cls: 'pomodoro-notification-title' });
+        this.timeEl = content.createDiv({ cls: 'pomodoro-break-time' });
+        this.suggestionEl = content.createDiv({ cls: 'pomodoro-notification-body' });
+
+        const buttons = content.createDiv({ cls: 'pomodoro-break-buttons' });
+        if (options.canPostpone) {
+            this.createButton(buttons, 'alarm-clock', `Postpone ${options.postponeMinutes} min`, this.actions.postpone);
+        }
+        if (options.canSkip) {
+            this.createButton(buttons, 'skip-forward', 'Skip break', this.actions.skip);
+        }
+        if (options.canClose) {
+            this.createButton(buttons, 'x', 'Close', this.actions.close);
+        }
+
+        // Start from a random suggestion so every break doesn't open the same way
+        this.suggestions = suggestions;
+        this.suggestionIndex = Math.floor(Math.random() * Math.max(1, suggestions.length));
+        this.showSuggestion();
+        if (suggestions.length > 1) {
+            this.rotateInterval = window.setInterval(() => {
+                this.suggestionIndex++;
+                this.showSuggestion();
+            }, ROTATE_INTERVAL_MS);
+        }
+
+        this.update(state);
+    }
+
+    update(state: TimerDisplayState) {
+        if (!this.el) return;
+        this.modeEl.setText(state.modeText);
+        this.timeEl.setText(state.timeText);
+        applyModeColor(this.el, state);
+    }
+
+    hide() {
+        if (this.rotateInterval !== null) {
+            clearInterval(this.rotateInterval);
+            this.rotateInterval = null;
+        }
+        this.el?.remove();
+        this.el = null;
+    }
+
+    private showSuggestion() {
+        const suggestion = this.suggestions[this.suggestionIndex % this.suggestions.length];
+        this.suggestionEl.setText(suggestion ?? 'Step away from the screen for a moment');
+    }
+
+    private createButton(parent: HTMLElement, icon: string, label: string, onClick: () => void) {
+        const button = parent.createEl('button', { cls: 'pomodoro-break-button' });
+        setIcon(button.createSpan(), icon);
+        button.createSpan({ text: label });
+        button.onclick = onClick;
+    }
+}
@@ -0,0 +1,182 @@
+import { App, SuggestModal, TFile, getAllTags, moment } from 'obsidian';
+import { PomodoroSettings } from './PomoTimer';
+import { SessionRecord } from './SessionLog';
+import { computeBreakdown, filterHistory, getStatsDate } from './Stats';
+
+/**
+ * A project or client focus time is counted towards. The colour is
+ * optional and, when enabled, tints the ring during focus sessions.
+ */
+export interface Category {
+    name: string;
+    color: string;
+}
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+const DAY_FORMAT = 'YYYY-MM-DD';
+
+export function findCategory(settings: PomodoroSettings, name: string | null): Category | null {
+    if (!name) return null;
+    const wanted = name.toLowerCase();
+    return settings.categories.find(category => category.name.toLowerCase() === wanted) ?? null;
+}
+
+function toTag(name: string): string {
+    return `#${name.trim().toLowerCase().replace(/\s+/g, '-')}`;
+}
+
+/**
+ * The category a note implies: its frontmatter property first (a plain
+ * value or a [[link]]), then a tag matching a configured category name.
+ */
+export function getNoteCategory(app: App, file: TFile | null, settings: PomodoroSettings): string | null {
+    if (!file) return null;
+    const cache = app.metadataCache.getFileCache(file);
+    if (!cache) return null;
+
+    const property = settings.categoryProperty.trim();
+    const value: unknown = property ? cache.frontmatter?.[property] : undefined;
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'string' && first.trim()) {
+        return first.trim().replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0];
+    }
+
+    if (settings.categoryFromTags) {
+        const tags = (getAllTags(cache) ?? []).map(tag => tag.toLowerCase());
+        // Nested tags count too, e.g. #acme/website for the Acme category
+        const match = settings.categories.find(category => {
+            const tag = toTag(category.name);
+            return tags.some(candidate => candidate === tag || candidate.startsWith(`${tag}/`));
+        });
+        if (match) return match.name;
+    }
+    return null;
+}
+
+/**
+ * Picks a configured category, or names a new one by typing it.
+ * Choosing null clears the category.
+ */
+export class CategorySuggestModal extends SuggestModal<string | null> {
+    private settings: PomodoroSettings;
+    private onChoose: (category: string | null) => void;
+
+    constructor(app: App, settings: PomodoroSettings, onChoose: (category: string | null) => void) {
+        super(app);
+        this.settings = settings;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Project or category');
+    }
+
+    getSuggestions(query: string): (string | null)[] {
+        const text = query.trim();
+        const names = this.settings.categories
+            .map(category => category.name)
+            .filter(name => name.toLowerCase().includes(text.toLowerCase()));
+
+        if (text && !names.some(name => name.toLowerCase() === text.toLowerCase())) {
+            names.push(text);
+        }
+        return text ? names : [...names, null];
+    }
+
+    renderSuggestion(category: string | null, el: HTMLElement) {
+        if (category === null) {
+            el.setText('No category');
+            return;
+        }
+        const color = findCategory(this.settings, category)?.color;
+        const swatch = el.createSpan({ cls: 'pomodoro-category-swatch' });
+        if (color) {
+            swatch.style.setProperty('--pomodoro-category-color', color);
+        }
+        el.createSpan({ text: findCategory(this.settings, category) ? category : `New category: ${category}` });
+    }
+
+    onChooseSuggestion(category: string | null) {
+        this.onChoose(category);
+    }
+}
+
+export interface ReportRange {
+    label: string;
+    from: string;
+    to: string;
+}
+
+function getPresetRanges(): ReportRange[] {
+    const today = getStatsDate();
+    const range = (label: string, from: ReturnType<typeof moment>) =>
+        ({ label, from: from.format(DAY_FORMAT), to: today.format(DAY_FORMAT) });
+
+    return [
+        range('Today', today.clone()),
+        range('This week', today.clone().startOf('isoWeek')),
+        range('Last 7 days', today.clone().subtract(6, 'days')),
+        range('This month', today.clone().startOf('month')),
+        range('Last 30 days', today.clone().subtract(29, 'days')),
+        range('This year', today.clone().startOf('year')),
+        { label: 'All time', from: '0000-01-01', to: '9999-12-31' }
+    ];
+}
+
+/**
+ * Picks the period for a category report: a preset, or two dates typed as
+ * "2026-10-01..2026-10-31".
+ */
+export class ReportRangeModal extends SuggestModal<ReportRange> {
+    private onChoose: (range: ReportRange) => void;
+
+    constructor(app: App, onChoose: (range: ReportRange) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Report period, or dates like 2026-10-01..2026-10-31');
+    }
+
+    getSuggestions(query: string): ReportRange[] {
+        const dates = query.match(/(\d{4}-\d{2}-\d{2})\s*(?:\.\.|to|–|-)\s*(\d{4}-\d{2}-\d{2})/);
+        if (dates) {
+            const from = moment(dates[1], DAY_FORMAT, true);
+            const to = moment(dates[2], DAY_FORMAT, true);
+            if (from.isValid() && to.isValid()) {
+                const [start, end] = from.isAfter(to) ? [to, from] : [from, to];
+                return [{ label: `${start.format(DAY_FORMAT)} to ${end.format(DAY_FORMAT)}`, from: start.format(DAY_FORMAT), to: end.format(DAY_FORMAT) }];
+            }
+        }
+
+        const text = query.trim().toLowerCase();
+        return getPresetRanges().filter(range => range.label.toLowerCase().includes(text));
+    }
+
+    renderSuggestion(range: ReportRange, el: HTMLElement) {
+        el.setText(range.label);
+    }
+
+    onChooseSuggestion(range: ReportRange) {
+        this.onChoose(range);
+    }
+}
+
+/**
+ * Markdown table of focus minutes and pomodoros per category.
+ */
+export function buildCategoryReport(history: SessionRecord[], range: ReportRange): string {
+    const records = filterHistory(history, range.from, range.to);
+    const entries = computeBreakdown(records, (record) => [record.category || UNCATEGORIZED]);
+    const lines = [
+        `**Focus by category · ${range.label}**`,
+        '',
+        '| Category | Pomodoros | Minutes |',
+        '| --- | --- | --- |'
+    ];
+
+    for (const entry of entries) {
+        lines.push(`| ${entry.label.replace(/\|/g, '\\|')} | ${entry.pomodoros} | ${entry.minutes} |`);
+    }
+    const pomodoros = entries.reduce((sum, entry) => sum + entry.pomodoros, 0);
+    const minutes = entries.reduce((sum, entry) => sum + entry.minutes, 0);
+    lines.push(`| **Total** | **${pomodoros}** | **${minutes}** |`);
+
+    return lines.join('\n');
+}
@@ -0,0 +1,310 @@
+import { MarkdownRenderChild, TFile, moment, setIcon } from 'obsidian';
+import type PomodoroPlugin from './main';
+import { TimerState } from './PomoTimer';
+import { DEFAULT_MODE_LABELS, TimerProfile, getAllProfiles } from './Profiles';
+import { SessionRecord } from './SessionLog';
+import { computeDayCounts, filterHistory, getStatsDate, isCompletedPomodoro, isFocusTime } from './Stats';
+import { TaskLink, findOpenTasks } from './TaskLink';
+import { TimerDisplayState, applyModeColor, createProgressRing, getGoalText, setRingProgress } from './TimerDisplay';
+
+export const TIMER_BLOCK_LANGUAGE = 'pomodian';
+export const STATS_BLOCK_LANGUAGE = 'pomodian-stats';
+
+const DAY_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_RANGE_DAYS = 90;
+// Longer ranges make heatmaps and tables too large to render in a note
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * Reads `key: value` lines from a code block. Keys are lower-cased; a bare
+ * word such as `compact` is a flag with an empty value.
+ */
+export function parseBlockOptions(source: string): Record<string, string> {
+    const options: Record<string, string> = {};
+    for (const line of source.split('\n')) {
+        const separator = line.indexOf(':');
+        const key = (separator === -1 ? line : line.slice(0, separator)).trim().toLowerCase();
+        if (key) {
+            options[key] = separator === -1 ? '' : line.slice(separator + 1).trim();
+        }
+    }
+    return options;
+}
+
+function isEnabled(value: string | undefined): boolean {
+    return value !== undefined && ['true', 'yes', '1', ''].includes(value.toLowerCase());
+}
+
+/**
+ * A live timer embedded in a note. It drives the plugin's single timer, so
+ * every embed, the header button and the sidebar show the same session.
+ *
+ * Options: `profile` (id or name) and `task` (text of an open task in this
+ * note) are applied when starting from idle; `compact` renders a single line.
+ */
+export class TimerBlock extends MarkdownRenderChild {
+    private plugin: PomodoroPlugin;
+    private options: Record<string, string>;
+    private sourcePath: string;
+    private profile: TimerProfile | null = null;
+    private circleEl: SVGCircleElement;
+    private ringEl: HTMLDivElement;
+    private timeEl: HTMLElement;
+    private modeEl: HTMLElement;
+    private toggleButtonEl: HTMLButtonElement;
+    private detailEl: HTMLDivElement | null = null;
+
+    constructor(containerEl: HTMLElement, plugin: PomodoroPlugin, options: Record<string, string>, sourcePath: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.options = options;
+        this.sourcePath = sourcePath;
+    }
+
+    onload() {
+        const container = this.containerEl.createDiv({ cls: 'pomodoro-block' });
+
+        if (this.options.profile) {
+            const wanted = this.options.profile.toLowerCase();
+            this.profile = getAllProfiles(this.plugin.settings)
+                .find(profile => profile.id === wanted || profile.name.toLowerCase() === wanted) ?? null;
+            if (!this.profile) {
+                container.createDiv({ cls: 'pomodoro-block-error', text: `Unknown profile: ${this.options.profile}` });
+            }
+        }
+
+        if (isEnabled(this.options.compact)) {
+            this.renderCompact(container);
+        } else {
+            this.renderFull(container);
+        }
+
+        this.plugin.addTimerBlock(this);
+        this.update(this.plugin.getDisplayState());
+    }
+
+    onunload() {
+        this.plugin.removeTimerBlock(this);
+    }
+
+    update(state: TimerDisplayState) {
+        setRingProgress(this.circleEl, state);
+        this.ringEl.toggleClass('session-complete', state.isSessionComplete);
+        this.timeEl.setText(state.timeText);
+        this.modeEl.setText(state.modeText);
+        this.modeEl.toggleClass('work-mode', state.mode === TimerState.Work);
+        this.modeEl.toggleClass('break-mode', state.mode !== TimerState.Work);
+        applyModeColor(this.modeEl, state);
+
+        setIcon(this.toggleButtonEl, state.isRunning ? 'pause' : 'play');
+        this.toggleButtonEl.setAttribute('aria-label', state.isRunning ? 'Pause' : 'Start');
+
+        if (this.detailEl) {
+            const details = [state.taskLabel, getGoalText(state)].filter(Boolean);
+            this.detailEl.setText(details.join(' · '));
+        }
+    }
+
+    private renderFull(container: HTMLElement) {
+        const actions = this.plugin.getTimerActions();
+
+        this.modeEl = container.createDiv({ cls: 'pomodoro-panel-mode' });
+        this.ringEl = container.createDiv({ cls: 'pomodoro-block-ring' });
+        this.circleEl = createProgressRing(this.ringEl, 'pomodoro-block-chart', 64, 5);
+        this.timeEl = this.ringEl.createDiv({ cls: 'pomodoro-block-time' });
+        this.ringEl.onclick = () => {
+            if (this.plugin.getDisplayState().isSessionComplete) {
+                actions.acknowledge();
+            }
+        };
+
+        const controls = container.createDiv({ cls: 'pomodoro-block-controls' });
+        this.toggleButtonEl = this.createControl(controls, 'play', 'Start', () => this.toggle());
+        this.createControl(controls, 'rotate-ccw', 'Reset', () => actions.reset());
+        this.createControl(controls, 'skip-forward', 'Skip to next mode', () => actions.skip());
+
+        this.detailEl = container.createDiv({ cls: 'pomodoro-block-detail' });
+    }
+
+    private renderCompact(container: HTMLElement) {
+        container.addClass('is-compact');
+        this.ringEl = container.createDiv({ cls: 'pomodoro-block-ring' });
+        this.circleEl = createProgressRing(this.ringEl, 'pomodoro-block-chart', 20, 3);
+        this.modeEl = container.createSpan({ cls: 'pomodoro-panel-mode' });
+        this.timeEl = container.createSpan({ cls: 'pomodoro-block-time' });
+        this.toggleButtonEl = this.createControl(container, 'play', 'Start', () => this.toggle());
+    }
+
+    private async toggle() {
+        const state = this.plugin.getDisplayState();
+        if (state.timerState !== TimerState.Idle || state.isSessionComplete) {
+            this.plugin.getTimerActions().toggle();
+            return;
+        }
+        this.plugin.startWith(this.profile, await this.findTask());
+    }
+
+    private async findTask(): Promise<TaskLink | null> {
+        const wanted = this.options.task?.toLowerCase();
+        const file = this.plugin.app.vault.getAbstractFileByPath(this.sourcePath);
+        if (!wanted || !(file instanceof TFile)) return null;
+
+        const tasks = findOpenTasks(file, await this.plugin.app.vault.cachedRead(file));
+        return tasks.find(task => task.text.toLowerCase().includes(wanted)) ?? null;
+    }
+
+    private createControl(parent: HTMLElement, icon: string, label: string, onClick: () => void): HTMLButtonElement {
+        const button = parent.createEl('button', { cls: 'pomodoro-block-button', attr: { 'aria-label': label } });
+        setIcon(button, icon);
+        button.onclick = onClick;
+        return button;
+    }
+}
+
+/**
+ * Session statistics embedded in a note, as a heatmap of completed
+ * pomodoros per day or a table of sessions.
+ *
+ * Options: `view` (heatmap or table), `from`/`to` (YYYY-MM-DD) or `days`,
+ * and `note` (`this`, a [[link]] or a path) to only count one note's sessions.
+ */
+export class StatsBlock extends MarkdownRenderChild {
+    private plugin: PomodoroPlugin;
+    private options: Record<string, string>;
+    private sourcePath: string;
+
+    constructor(containerEl: HTMLElement, plugin: PomodoroPlugin, options: Record<string, string>, sourcePath: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.options = options;
+        this.sourcePath = sourcePath;
+    }
+
+    onload() {
+        this.plugin.addStatsBlock(this);
+        this.refresh();
+    }
+
+    onunload() {
+        this.plugin.removeStatsBlock(this);
+    }
+
+    refresh() {
+        this.containerEl.empty();
+        const container = this.containerEl.createDiv({ cls: 'pomodoro-block pomodoro-stats-block' });
+
+        const range = this.getRange();
+        if (!range) {
+            container.createDiv({ cls: 'pomodoro-block-error', text: 'Dates must use the YYYY-MM-DD format' });
+            return;
+        }
+
+        const notePath = this.getNotePath();
+        if (notePath === undefined) {
+            container.createDiv({ cls: 'pomodoro-block-error', text: `Note not found: ${this.options.note}` });
+            return;
+        }
+
+        const [from, to] = range;
+        const records = filterHistory(this.plugin.getHistory(), from.format(DAY_FORMAT), to.format(DAY_FORMAT), notePath);
+        const pomodoros = records.filter(isCompletedPomodoro).length;
+        const minutes = Math.round(records
+            .filter(isFocusTime)
+            .reduce((sum, record) => sum + record.actualSeconds, 0) / 60);
+        container.createDiv({
+            cls: 'pomodoro-block-detail',
+            text: `${pomodoros} pomodoros · ${minutes} min · ${from.format('MMM D')} – ${to.format('MMM D, YYYY')}`
+        });
+
+        if (this.options.view === 'table') {
+            this.renderTable(container, records, notePath === null);
+        } else {
+            this.renderHeatmap(container, records, from, to);
+        }
+    }
+
+    private getRange(): [ReturnType<typeof moment>, ReturnType<typeof moment>] | null {
+        const to = this.options.to ? moment(this.options.to, DAY_FORMAT, true) : getStatsDate();
+        const parsedDays = parseInt(this.options.days);
+        const days = parsedDays >= 1 && parsedDays <= MAX_RANGE_DAYS ? parsedDays : DEFAULT_RANGE_DAYS;
+        const from = this.options.from
+            ? moment(this.options.from, DAY_FORMAT, true)
+            : to.clone().subtract(days - 1, 'days');
+
+        if (!from.isValid() || !to.isValid()) return null;
+        const [start, end] = from.isAfter(to) ? [to, from] : [from, to];
+        // Explicit dates are limited the same way, keeping the later end
+        if (end.diff(start, 'days') >= MAX_RANGE_DAYS) {
+            return [end.clone().subtract(MAX_RANGE_DAYS - 1, 'days'), end];
+        }
+        return [start, end];
+    }
+
+    /**
+     * null means every note; undefined means the note option didn't resolve.
+     */
+    private getNotePath(): string | null | undefined {
+        const value = this.options.note;
+        if (!value) return null;
+        if (value === 'this') return this.sourcePath;
+
+        const linkpath = value.replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0];
+        const file = this.plugin.app.metadataCache.getFirstLinkpathDest(linkpath, this.sourcePath);
+        return file?.path;
+    }
+
+    private renderHeatmap(parent: HTMLElement, records: SessionRecord[], from: ReturnType<typeof moment>, to: ReturnType<typeof moment>) {
+        const counts = computeDayCounts(records);
+        const max = Math.max(1, ...Array.from(counts.values()).map(count => count.pomodoros));
+        const heatmap = parent.createDiv({ cls: 'pomodoro-heatmap' });
+
+        // One column per week, Monday at the top
+        const cursor = from.clone().startOf('isoWeek');
+        let column = heatmap.createDiv({ cls: 'pomodoro-heatmap-week' });
+        while (!cursor.isAfter(to, 'day')) {
+            if (cursor.isoWeekday() === 1 && column.childElementCount > 0) {
+                column = heatmap.createDiv({ cls: 'pomodoro-heatmap-week' });
+            }
+
+            const cell = column.createDiv({ cls: 'pomodoro-heatmap-day' });
+            if (cursor.isBefore(from, 'day')) {
+                cell.addClass('is-outside');
+            } else {
+                const key = cursor.format(DAY_FORMAT);
+                const count = counts.get(key);
+                const level = count?.pomodoros ? Math.ceil((count.pomodoros / max) * 4) : 0;
+                cell.addClass(`level-${level}`);
+                cell.setAttribute('aria-label', `${key}: ${count?.pomodoros ?? 0} pomodoros, ${count?.minutes ?? 0} min`);
+            }
+            cursor.add(1, 'day');
+        }
+    }
+
+    private renderTable(parent: HTMLElement, records: SessionRecord[], showNote: boolean) {
+        if (records.length === 0) {
+            parent.createDiv({ cls: 'pomodoro-stats-empty', text: 'No sessions in this range.' });
+            return;
+        }
+
+        const table = parent.createEl('table', { cls: 'pomodoro-stats-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        const headers = ['Date', 'Time', 'Mode', 'Minutes', 'Outcome', ...(showNote ? ['Note'] : []), 'Task'];
+        for (const header of headers) {
+            headerRow.createEl('th', { text: header });
+        }
+
+        const body = table.createEl('tbody');
+        for (const record of [...records].reverse()) {
+            const row = body.createEl('tr');
+            row.createEl('td', { text: moment(record.start).format(DAY_FORMAT) });
+            row.createEl('td', { text: `${moment(record.start).format('HH:mm')}–${moment(record.end).format('HH:mm')}` });
+            row.createEl('td', { text: DEFAULT_MODE_LABELS[record.mode] ?? TimerState[record.mode] });
+            row.createEl('td', { text: Math.round(record.actualSeconds / 60).toString() });
+            row.createEl('td', { text: record.outcome });
+            if (showNote) {
+                row.createEl('td', { text: record.notePath?.replace(/\.md$/, '') ?? '' });
+            }
+            row.createEl('td', { text: record.task ?? '' });
+        }
+    }
+}
@@ -0,0 +1,55 @@
+/**
+ * 'remaining': `value` minutes before the end; 'elapsed': once `value`
+ * percent of the session has passed (50 is halfway).
+ */
+export type CueType = 'remaining' | 'elapsed';
+
+export type CueAlert = 'sound' | 'notice' | 'notification';
+
+export interface SessionCue {
+    type: CueType;
+    value: number;
+    alert: CueAlert;
+    focusOnly: boolean;
+}
+
+/**
+ * Seconds left in the session at which the cue fires.
+ */
+export function getCueThreshold(cue: SessionCue, totalSeconds: number): number {
+    return cue.type === 'remaining'
+        ? cue.value * 60
+        : Math.round(totalSeconds * (1 - cue.value / 100));
+}
+
+export function getCueText(cue: SessionCue, modeText: string): string {
+    if (cue.type === 'remaining') {
+        return `${cue.value} ${cue.value === 1 ? 'minute' : 'minutes'} left in ${modeText}`;
+    }
+    return cue.value === 50 ? `Halfway through ${modeText}` : `${cue.value}% of ${modeText} done`;
+}
+
+/**
+ * Finds the cues whose moment the countdown has just passed. Only
+ * crossings count, so a restored or shortened session doesn't replay cues
+ * that were already due.
+ */
+export class CueTracker {
+    private lastRemaining: number | null = null;
+
+    reset() {
+        this.lastRemaining = null;
+    }
+
+    check(cues: SessionCue[], remainingSeconds: number, totalSeconds: number, isFocus: boolean): SessionCue[] {
+        const previous = this.lastRemaining;
+        this.lastRemaining = remainingSeconds;
+        if (previous === null || remainingSeconds <= 0) return [];
+
+        return cues.filter(cue => {
+            if (cue.focusOnly && !isFocus) return false;
+            const threshold = getCueThreshold(cue, totalSeconds);
+            return threshold > 0 && threshold < totalSeconds && previous > threshold && remainingSeconds <= threshold;
+        });
+    }
+}
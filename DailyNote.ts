@@ -0,0 +1,119 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { PomodoroSettings } from './PomoTimer';
+
+export type DailyNoteSource = 'core' | 'custom';
+
+interface DailyNotesOptions {
+    folder?: string;
+    format?: string;
+}
+
+// The core Daily notes plugin is internal, so its settings are not in the public API
+interface AppWithInternalPlugins extends App {
+    internalPlugins?: {
+        getPluginById(id: string): { enabled: boolean; instance?: { options?: DailyNotesOptions } } | null;
+    };
+}
+
+const DEFAULT_DAILY_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * Replaces `{{name}}` placeholders and `{{date:FORMAT}}` with moment formats
+ * of the given date. Unknown placeholders are left as they are.
+ */
+export function renderTemplate(template: string, values: Record<string, string>, date = moment()): string {
+    return template
+        .replace(/\{\{date:([^}]+)\}\}/g, (_, format: string) => date.format(format))
+        .replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Inserts `text` at the end of the section under `heading`, before the next
+ * heading of the same or a higher level. The heading is appended when missing.
+ */
+export function insertUnderHeading(content: string, heading: string, text: string): string {
+    const lines = content.split('\n');
+    const headingText = heading.trim();
+    const level = headingText.match(/^#+/)?.[0].length ?? 0;
+    const start = headingText ? lines.findIndex(line => line.trim() === headingText) : -1;
+
+    if (start === -1) {
+        const trimmed = content.replace(/\s+$/, '');
+        const prefix = trimmed ? `${trimmed}\n\n` : '';
+        return headingText ? `${prefix}${headingText}\n${text}\n` : `${prefix}${text}\n`;
+    }
+
+    let end = lines.length;
+    for (let i = start + 1; i < lines.length; i++) {
+        const match = lines[i].match(/^(#+)\s/);
+        if (match && match[1].length <= level) {
+            end = i;
+            break;
+        }
+    }
+
+    // Skip blank lines at the end of the section so entries stay together
+    let insertAt = end;
+    while (insertAt > start + 1 && lines[insertAt - 1].trim() === '') {
+        insertAt--;
+    }
+    lines.splice(insertAt, 0, text);
+    return lines.join('\n');
+}
+
+/**
+ * Resolves and writes to today's daily note, either where the core Daily
+ * notes plugin puts it or at a custom `{{date:...}}` path pattern.
+ */
+export class DailyNoteWriter {
+    private app: App;
+    private settings: PomodoroSettings;
+
+    constructor(app: App, settings: PomodoroSettings) {
+        this.app = app;
+        this.settings = settings;
+    }
+
+    public updateSettings(settings: PomodoroSettings) {
+        this.settings = settings;
+    }
+
+    getDailyNotePath(date = moment()): string {
+        if (this.settings.dailyNoteSource === 'custom') {
+            const path = renderTemplate(this.settings.dailyNotePathPattern, {}, date);
+            return normalizePath(path.endsWith('.md') ? path : `${path}.md`);
+        }
+
+        const options = this.getCoreDailyNotesOptions();
+        const folder = options.folder?.trim() ?? '';
+        const fileName = date.format(options.format || DEFAULT_DAILY_FORMAT);
+        return normalizePath(folder ? `${folder}/${fileName}.md` : `${fileName}.md`);
+    }
+
+    /**
+     * Adds lines under the configured heading of the daily note for `date`,
+     * creating the note if needed.
+     */
+    async append(text: string, date = moment()) {
+        const path = this.getDailyNotePath(date);
+        const heading = this.settings.dailyNoteHeading;
+        const existing = this.app.vault.getAbstractFileByPath(path);
+
+        if (existing instanceof TFile) {
+            const content = await this.app.vault.read(existing);
+            await this.app.vault.modify(existing, insertUnderHeading(content, heading, text));
+            return;
+        }
+
+        const folder = path.split('/').slice(0, -1).join('/');
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        await this.app.vault.create(path, insertUnderHeading('', heading, text));
+    }
+
+    private getCoreDailyNotesOptions(): DailyNotesOptions {
+        const plugin = (this.app as AppWithInternalPlugins).internalPlugins?.getPluginById('daily-notes');
+        return plugin?.enabled ? plugin.instance?.options ?? {} : {};
+    }
+}
@@ -0,0 +1,158 @@
+import { App, Notice, TFile, WorkspaceLeaf, getAllTags } from 'obsidian';
+import { PomodoroSettings } from './PomoTimer';
+
+export type FocusGuard = 'off' | 'warn' | 'block';
+
+const BODY_CLASSES = {
+    active: 'pomodoro-focus-mode',
+    hideStatusBar: 'pomodoro-focus-hide-status-bar',
+    hideRibbon: 'pomodoro-focus-hide-ribbon',
+    zen: 'pomodoro-focus-zen'
+};
+
+/**
+ * What the workspace looked like before focus mode, so leaving it puts
+ * back exactly what the user had rather than expanding everything.
+ */
+interface SavedLayout {
+    leftCollapsed: boolean;
+    rightCollapsed: boolean;
+    enteredFullScreen: boolean;
+}
+
+/**
+ * Splits a comma or newline separated setting into trimmed entries.
+ */
+function parseList(value: string): string[] {
+    return value.split(/[,\n]/).map(entry => entry.trim()).filter(entry => entry.length > 0);
+}
+
+/**
+ * Dims the workspace while focusing and guards against opening notes
+ * outside the allowed folders and tags.
+ */
+export class FocusMode {
+    private app: App;
+    private settings: PomodoroSettings;
+    private saved: SavedLayout | null = null;
+    private lastAllowedFile: TFile | null = null;
+
+    constructor(app: App, settings: PomodoroSettings) {
+        this.app = app;
+        this.settings = settings;
+    }
+
+    public updateSettings(settings: PomodoroSettings) {
+        this.settings = settings;
+    }
+
+    isActive(): boolean {
+        return this.saved !== null;
+    }
+
+    enter() {
+        if (this.saved) return;
+
+        const { leftSplit, rightSplit } = this.app.workspace;
+        this.saved = {
+            leftCollapsed: leftSplit.collapsed,
+            rightCollapsed: rightSplit.collapsed,
+            enteredFullScreen: false
+        };
+        this.lastAllowedFile = this.app.workspace.getActiveFile();
+
+        if (this.settings.focusCollapseSidebars) {
+            leftSplit.collapse();
+            rightSplit.collapse();
+        }
+
+        document.body.addClass(BODY_CLASSES.active);
+        document.body.toggleClass(BODY_CLASSES.hideStatusBar, this.settings.focusHideStatusBar);
+        document.body.toggleClass(BODY_CLASSES.hideRibbon, this.settings.focusHideRibbon);
+        document.body.toggleClass(BODY_CLASSES.zen, this.settings.focusZen);
+
+        if (this.settings.focusFullScreen && !document.fullscreenElement) {
+            const saved = this.saved;
+            document.documentElement.requestFullscreen()
+                .then(() => {
+                    saved.enteredFullScreen = true;
+                })
+                .catch((error) => console.warn('Could not enter full screen:', error));
+        }
+    }
+
+    exit() {
+        if (!this.saved) return;
+
+        const { leftSplit, rightSplit } = this.app.workspace;
+        if (!this.saved.leftCollapsed) leftSplit.expand();
+        if (!this.saved.rightCollapsed) rightSplit.expand();
+
+        document.body.removeClass(...Object.values(BODY_CLASSES));
+
+        // Only leave full screen if focus mode is what put us there
+        if (this.saved.enteredFullScreen && document.fullscreenElement) {
+            document.exitFullscreen().catch((error) => console.warn('Could not exit full screen:', error));
+        }
+
+        this.saved = null;
+        this.lastAllowedFile = null;
+    }
+
+    /**
+     * Warns about, or navigates away from, a note outside the allow-list.
+     */
+    handleFileOpen(file: TFile | null) {
+        if (!this.saved || !file || this.settings.focusGuard === 'off') return;
+
+        if (this.isAllowed(file)) {
+            this.lastAllowedFile = file;
+            return;
+        }
+
+        if (this.settings.focusGuard === 'warn') {
+            new Notice(`Focus mode: ${file.basename} is outside your focus notes`);
+            return;
+        }
+
+        new Notice(`Focus mode: ${file.basename} is blocked until the session ends`);
+        const leaf = this.findLeaf(file);
+        const previous = this.lastAllowedFile;
+        if (leaf && previous && previous !== file) {
+            leaf.openFile(previous);
+        } else {
+            leaf?.detach();
+        }
+    }
+
+    private isAllowed(file: TFile): boolean {
+        const folders = parseList(this.settings.focusAllowedFolders);
+        const tags = parseList(this.settings.focusAllowedTags)
+            .map(tag => (tag.startsWith('#') ? tag : `#${tag}`).toLowerCase());
+        if (folders.length === 0 && tags.length === 0) return true;
+
+        const inFolder = folders.some(folder => {
+            const prefix = folder.replace(/\/+$/, '');
+            return file.path === prefix || file.path.startsWith(`${prefix}/`);
+        });
+        if (inFolder) return true;
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        const fileTags = cache ? (getAllTags(cache) ?? []).map(tag => tag.toLowerCase()) : [];
+        // A tag also allows its nested tags, e.g. #work allows #work/spec
+        return fileTags.some(fileTag => tags.some(tag => fileTag === tag || fileTag.startsWith(`${tag}/`)));
+    }
+
+    private findLeaf(file: TFile): WorkspaceLeaf | null {
+        const active = this.app.workspace.getMostRecentLeaf();
+        if (active?.view.getState().file === file.path) return active;
+
+        let match: WorkspaceLeaf | null = null;
+        this.app.workspace.iterateRootLeaves(leaf => {
+            if (!match && leaf.view.getState().file === file.path) {
+                match = leaf;
+            }
+        });
+        return match;
+    }
+}
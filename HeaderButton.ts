@@ -0,0 +1,273 @@
+import { Component, Platform, setIcon } from 'obsidian';
+import { TimerState } from './PomoTimer';
+import { TimerActions, TimerDisplayState, applyModeColor, createProgressRing, getGoalText, renderGoalDots, setRingProgress, updateInterruptionButtons } from './TimerDisplay';
+
+// How long a touch must be held on the time to reset
+const LONG_PRESS_MS = 600;
+
+/**
+ * The pie button in a view header with its hover/pinned control panel. One
+ * exists per window; listeners are registered so unloading removes them.
+ */
+export class HeaderButton extends Component {
+    private actions: TimerActions;
+    private state: TimerDisplayState | null = null;
+
+    // UI Elements
+    private containerEl: HTMLDivElement;
+    private controlPanelEl: HTMLDivElement;
+    private pieCircleEl: SVGCircleElement;
+    private panelTimeEl: HTMLButtonElement;
+    private panelModeEl: HTMLDivElement;
+    private panelTaskEl: HTMLDivElement;
+    private panelCategoryEl: HTMLDivElement;
+    private panelScheduleEl: HTMLDivElement;
+    private scheduleText = '';
+    private internalButtonEl: HTMLButtonElement;
+    private externalButtonEl: HTMLButtonElement;
+    private panelGoalEl: HTMLDivElement;
+    private goalTextEl: HTMLSpanElement;
+    private goalDotsEl: HTMLDivElement;
+    private extendButtonEl: HTMLButtonElement;
+    private shortenButtonEl: HTMLButtonElement;
+    private isPanelPinned = false;
+    private hideTimeout: number | null = null;
+    private longPressTimeout: number | null = null;
+    private longPressFired = false;
+
+    constructor(parent: Element, actions: TimerActions) {
+        super();
+        this.actions = actions;
+        this.containerEl = parent.createEl('div', { cls: 'pomodoro-container' });
+
+        const pieButton = this.containerEl.createEl('button', { cls: 'pomodoro-pie-button' });
+        pieButton.setAttribute('aria-label', 'Pomodoro timer');
+        pieButton.onclick = (event) => {
+            event.stopPropagation();
+            if (this.state?.isSessionComplete) {
+                this.actions.acknowledge();
+            } else if (Platform.isMobile) {
+                // There is no hover on touch screens, so tapping opens the panel
+                this.togglePanel();
+            } else {
+                this.isPanelPinned = !this.isPanelPinned;
+            }
+        };
+
+        this.pieCircleEl = createProgressRing(pieButton, 'pomodoro-pie-chart', 20, 3);
+        parent.prepend(this.containerEl);
+
+        this.controlPanelEl = this.containerEl.createEl('div', { cls: 'pomodoro-control-panel' });
+        this.panelModeEl = this.controlPanelEl.createEl('div', {
+            cls: 'pomodoro-panel-mode',
+            attr: {
+                'title': 'Click to switch mode (only when timer is reset)',
+                'role': 'button',
+                'tabindex': '0'
+            }
+        });
+        this.panelModeEl.onclick = () => this.actions.switchMode();
+
+        this.panelTimeEl = this.controlPanelEl.createEl('button', {
+            cls: 'pomodoro-panel-time',
+            attr: { 'title': Platform.isMobile ? 'Tap: Play/Pause | Long press: Reset' : 'Left click: Play/Pause | Right click: Reset' }
+        });
+        this.panelTimeEl.onclick = () => {
+            // The click that ends a long press shouldn't also toggle the timer
+            if (this.longPressFired) {
+                this.longPressFired = false;
+                return;
+            }
+            this.actions.toggle();
+        };
+        this.panelTimeEl.oncontextmenu = (e) => {
+            e.preventDefault();
+            // Touch browsers fire contextmenu on long press; the long press handles that
+            if (!this.longPressFired && this.longPressTimeout === null) {
+                this.actions.reset();
+            }
+        };
+
+        this.panelTaskEl = this.controlPanelEl.createEl('div', {
+            cls: 'pomodoro-panel-task',
+            attr: { 'title': 'Linked task (click to pick another)' }
+        });
+        this.panelTaskEl.onclick = () => this.actions.pickTask();
+
+        this.panelCategoryEl = this.controlPanelEl.createEl('div', {
+            cls: 'pomodoro-panel-category',
+            attr: { 'title': 'Category (click to change)' }
+        });
+        this.panelCategoryEl.onclick = () => this.actions.pickCategory();
+
+        this.panelScheduleEl = this.controlPanelEl.createEl('div', {
+            cls: 'pomodoro-panel-schedule',
+            attr: { 'title': 'Upcoming scheduled blocks' }
+        });
+
+        this.panelGoalEl = this.controlPanelEl.createEl('div', { cls: 'pomodoro-panel-goal' });
+        this.goalDotsEl = this.panelGoalEl.createEl('div', { cls: 'pomodoro-progress-indicator' });
+        this.goalTextEl = this.panelGoalEl.createEl('span', { cls: 'pomodoro-panel-goal-text' });
+
+        const controls = this.controlPanelEl.createEl('div', { cls: 'pomodoro-panel-controls' });
+        this.createControl(controls, 'skip-forward', 'Skip to next mode', () => this.actions.skip());
+        this.extendButtonEl = this.createControl(controls, 'plus', 'Add time', () => {
+            this.actions.addMinutes(this.state?.adjustMinutes ?? 5);
+        });
+        this.shortenButtonEl = this.createControl(controls, 'minus', 'Subtract time', () => {
+            this.actions.addMinutes(-(this.state?.adjustMinutes ?? 5));
+        });
+        this.createControl(controls, 'check', 'Finish now', () => this.actions.finishNow());
+        this.internalButtonEl = this.createControl(controls, 'brain', "Log internal interruption (')", () => this.actions.interrupt('internal'));
+        this.externalButtonEl = this.createControl(controls, 'phone-incoming', 'Log external interruption (-)', () => this.actions.interrupt('external'));
+    }
+
+    onload() {
+        // Hover and outside clicks, in whichever window this button lives
+        this.registerDomEvent(this.containerEl, 'mouseenter', this.showPanel);
+        this.registerDomEvent(this.containerEl, 'mouseleave', this.hidePanel);
+        this.registerDomEvent(this.containerEl.doc, 'click', this.handleDocumentClick, true);
+
+        this.registerDomEvent(this.panelTimeEl, 'pointerdown', this.startLongPress);
+        for (const type of ['pointerup', 'pointercancel', 'pointerleave'] as const) {
+            this.registerDomEvent(this.panelTimeEl, type, this.cancelLongPress);
+        }
+    }
+
+    onunload() {
+        // Clear any pending hide timeout
+        if (this.hideTimeout !== null) {
+            clearTimeout(this.hideTimeout);
+            this.hideTimeout = null;
+        }
+        this.cancelLongPress();
+
+        this.containerEl.remove();
+        this.isPanelPinned = false;
+    }
+
+    /**
+     * Whether the button is still in a view header, which goes away when
+     * its leaf or window is closed.
+     */
+    isAttached(): boolean {
+        return this.containerEl.isConnected;
+    }
+
+    /**
+     * Pins the control panel open, or unpins and hides it.
+     */
+    togglePanel() {
+        this.isPanelPinned = !this.isPanelPinned;
+        if (this.isPanelPinned) {
+            this.showPanel();
+        } else {
+            this.controlPanelEl.removeClass('is-panel-visible');
+        }
+    }
+
+    update(state: TimerDisplayState) {
+        this.state = state;
+        setRingProgress(this.pieCircleEl, state);
+
+        const modeClass = state.mode === TimerState.Work ? 'work-mode' : 'break-mode';
+        this.panelModeEl.removeClass('work-mode', 'break-mode', 'mode-enabled', 'mode-disabled');
+        this.panelModeEl.addClass(modeClass);
+        applyModeColor(this.panelModeEl, state);
+
+        // Add session complete animation
+        this.containerEl.toggleClass('session-complete', state.isSessionComplete);
+
+        this.panelTimeEl.setText(state.timeText);
+        this.panelTimeEl.toggleClass('is-overtime', state.isOvertime);
+        this.panelModeEl.setText(state.modeText);
+
+        // Show the task the focus session is bound to, if any
+        this.panelTaskEl.setText(state.taskLabel ?? '');
+        this.panelTaskEl.toggleClass('is-hidden', !state.taskLabel);
+        this.panelCategoryEl.setText(state.categoryLabel ?? '');
+        this.panelCategoryEl.toggleClass('is-hidden', !state.categoryLabel);
+
+        // Today's remaining time blocks, rebuilt only when they change
+        const scheduleText = state.upcomingBlocks.join('\n');
+        if (scheduleText !== this.scheduleText) {
+            this.scheduleText = scheduleText;
+            this.panelScheduleEl.empty();
+            state.upcomingBlocks.forEach(block => this.panelScheduleEl.createDiv({ text: block }));
+        }
+        this.panelScheduleEl.toggleClass('is-hidden', state.upcomingBlocks.length === 0);
+
+        // Daily goal progress, hidden when no goal is set
+        const goalText = getGoalText(state);
+        this.panelGoalEl.toggleClass('is-hidden', !goalText);
+        this.goalTextEl.setText(goalText ?? '');
+        renderGoalDots(this.goalDotsEl, state);
+
+        // Update mode display state based on whether it can be changed
+        this.panelModeEl.addClass(state.canSwitchMode ? 'mode-enabled' : 'mode-disabled');
+
+        this.extendButtonEl.setAttribute('aria-label', `Add ${state.adjustMinutes} minutes`);
+        this.shortenButtonEl.setAttribute('aria-label', `Subtract ${state.adjustMinutes} minutes`);
+        updateInterruptionButtons(this.internalButtonEl, this.externalButtonEl, state);
+    }
+
+    private createControl(parent: HTMLElement, icon: string, label: string, onClick: () => void): HTMLButtonElement {
+        const button = parent.createEl('button', { cls: 'pomodoro-panel-control', attr: { 'aria-label': label } });
+        setIcon(button, icon);
+        button.onclick = onClick;
+        return button;
+    }
+
+    private startLongPress = (event: PointerEvent) => {
+        if (event.pointerType !== 'touch') return;
+
+        this.cancelLongPress();
+        this.longPressFired = false;
+        this.longPressTimeout = window.setTimeout(() => {
+            this.longPressTimeout = null;
+            this.longPressFired = true;
+            this.actions.reset();
+        }, LONG_PRESS_MS);
+    };
+
+    private cancelLongPress = () => {
+        if (this.longPressTimeout !== null) {
+            clearTimeout(this.longPressTimeout);
+            this.longPressTimeout = null;
+        }
+    };
+
+    private showPanel = () => {
+        // Clear any pending hide timeout when showing panel
+        if (this.hideTimeout !== null) {
+            clearTimeout(this.hideTimeout);
+            this.hideTimeout = null;
+        }
+        this.controlPanelEl.addClass('is-panel-visible');
+    };
+
+    private hidePanel = () => {
+        if (!this.isPanelPinned) {
+            // Add a 300ms grace period before hiding
+            this.hideTimeout = window.setTimeout(() => {
+                this.controlPanelEl.removeClass('is-panel-visible');
+                this.hideTimeout = null;
+            }, 300);
+        }
+    };
+
+    private handleDocumentClick = (event: MouseEvent) => {
+        if (!this.containerEl.contains(event.target as Node)) {
+            // Clicked outside the container
+            if (this.isPanelPinned) {
+                this.isPanelPinned = false;
+                // Clear any grace period and hide immediately when clicking outside
+                if (this.hideTimeout !== null) {
+                    clearTimeout(this.hideTimeout);
+                    this.hideTimeout = null;
+                }
+                this.controlPanelEl.removeClass('is-panel-visible');
+            }
+        }
+    };
+}
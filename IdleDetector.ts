@@ -0,0 +1,97 @@
+import { App, Modal, Setting } from 'obsidian';
+
+// Editing with a longer gap than this starts a new stretch of activity
+const EDIT_GAP_MS = 5 * 60 * 1000;
+
+export type IdleChoice = 'discard' | 'keep' | 'reset';
+
+/**
+ * Remembers when the user last did anything and how long they have been
+ * editing without a break, for idle pauses and the no-timer reminder.
+ */
+export class IdleDetector {
+    private lastActivity = Date.now();
+    private editingSince: number | null = null;
+    private lastEdit: number | null = null;
+
+    recordActivity(now = Date.now()) {
+        this.lastActivity = now;
+    }
+
+    recordEdit(now = Date.now()) {
+        this.recordActivity(now);
+        if (this.lastEdit === null || now - this.lastEdit > EDIT_GAP_MS) {
+            this.editingSince = now;
+        }
+        this.lastEdit = now;
+    }
+
+    getLastActivity(): number {
+        return this.lastActivity;
+    }
+
+    /**
+     * How long the current stretch of editing has lasted, or 0 when the
+     * user hasn't edited recently.
+     */
+    getEditingMs(now = Date.now()): number {
+        if (this.editingSince === null || this.lastEdit === null || now - this.lastEdit > EDIT_GAP_MS) {
+            return 0;
+        }
+        return now - this.editingSince;
+    }
+
+    resetEditing(now = Date.now()) {
+        this.editingSince = this.lastEdit !== null ? now : null;
+    }
+}
+
+/**
+ * Asked on return from an idle pause: what to do with the time spent away.
+ */
+export class IdleReturnModal extends Modal {
+    private idleMinutes: number;
+    private onChoose: (choice: IdleChoice | null) => void;
+    private chosen = false;
+
+    constructor(app: App, idleMinutes: number, onChoose: (choice: IdleChoice | null) => void) {
+        super(app);
+        this.idleMinutes = idleMinutes;
+        this.onChoose = onChoose;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('Welcome back');
+        contentEl.createEl('p', {
+            text: `The focus session was paused after you were away for ${this.idleMinutes} minutes. What should happen to that time?`
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Discard idle time')
+                .setCta()
+                .onClick(() => this.choose('discard')))
+            .addButton(button => button
+                .setButtonText('Keep it')
+                .onClick(() => this.choose('keep')))
+            .addButton(button => button
+                .setButtonText('Reset session')
+                .setWarning()
+                .onClick(() => this.choose('reset')));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        // Closing without a choice leaves the session paused
+        if (!this.chosen) {
+            this.onChoose(null);
+        }
+    }
+
+    private choose(choice: IdleChoice) {
+        this.chosen = true;
+        this.onChoose(choice);
+        this.close();
+    }
+}
@@ -0,0 +1,96 @@
+import { App, Modal, Setting, TFile, normalizePath } from 'obsidian';
+
+/**
+ * internal ('): your own urge to do something else;
+ * external (-): someone or something else demanding attention.
+ */
+export type InterruptionKind = 'internal' | 'external';
+
+export interface InterruptionCounts {
+    internal: number;
+    external: number;
+}
+
+export const INTERRUPTION_MARKS: Record<InterruptionKind, string> = {
+    internal: "'",
+    external: '-'
+};
+
+export function formatInterruptions(counts: InterruptionCounts): string {
+    return `${INTERRUPTION_MARKS.internal}${counts.internal} ${INTERRUPTION_MARKS.external}${counts.external}`;
+}
+
+/**
+ * Appends a line to the interruptions inbox note, creating the note (and
+ * its folder) on first use.
+ */
+export async function appendToInbox(app: App, path: string, line: string) {
+    const filePath = normalizePath(path);
+    const existing = app.vault.getAbstractFileByPath(filePath);
+    if (existing instanceof TFile) {
+        const content = await app.vault.read(existing);
+        const separator = content.length === 0 || content.endsWith('\n') ? '' : '\n';
+        await app.vault.append(existing, `${separator}${line}\n`);
+        return;
+    }
+
+    const folder = filePath.split('/').slice(0, -1).join('/');
+    if (folder && !app.vault.getAbstractFileByPath(folder)) {
+        await app.vault.createFolder(folder);
+    }
+    await app.vault.create(filePath, `${line}\n`);
+}
+
+/**
+ * Captures what the interruption was about, to deal with after the
+ * session. Submitting an empty note just closes it.
+ */
+export class InterruptionNoteModal extends Modal {
+    private kind: InterruptionKind;
+    private onSubmit: (note: string) => void;
+    private note = '';
+
+    constructor(app: App, kind: InterruptionKind, onSubmit: (note: string) => void) {
+        super(app);
+        this.kind = kind;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(this.kind === 'internal' ? 'Internal interruption' : 'External interruption');
+
+        new Setting(contentEl)
+            .setName('Quick note')
+            .setDesc('Saved to the interruptions inbox so you can get back to it later')
+            .addText(text => {
+                text.setPlaceholder('Reply to Sam about the budget')
+                    .onChange(value => this.note = value);
+                text.inputEl.addEventListener('keydown', (event) => {
+                    if (event.key === 'Enter') {
+                        event.preventDefault();
+                        this.submit();
+                    }
+                });
+                // Let the user type right away
+                setTimeout(() => text.inputEl.focus(), 0);
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => this.submit()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private submit() {
+        if (this.note.trim()) {
+            this.onSubmit(this.note.trim());
+        }
+        this.close();
+    }
+}
@@ -1,3 +1,15 @@
+import { ActiveSession, SessionLogFormat, SessionRecord } from './SessionLog';
+import { TaskCounterStyle, TaskLink } from './TaskLink';
+import { TimerProfile } from './Profiles';
+import { AmbientSound, SoundChoice, SoundEvent } from './SoundEngine';
+import { DailyNoteSource } from './DailyNote';
+import { FocusGuard } from './FocusMode';
+import { BreakPromptStyle, BreakStrictness } from './BreakPrompt';
+import { Category } from './Categories';
+import { ScheduleRun, ScheduleSource } from './Schedule';
+import { ReflectionTarget } from './Reflection';
+import { SessionCue } from './Cues';
+
 export enum TimerState {
     Work,
     ShortBreak,
@@ -6,11 +18,25 @@ export enum TimerState {
     Idle
 }
 
+/**
+ * Serializable view of the timer, persisted so a session survives reloads.
+ * While running, `endTime` is the source of truth; while paused, `remainingMs` is.
+ */
+export interface TimerSnapshot {
+    state: TimerState;
+    prePauseState: TimerState;
+    endTime: number | null;
+    remainingMs: number;
+    totalTime: number;
+}
+
 export class PomoTimer {
     private state: TimerState = TimerState.Idle;
     private prePauseState: TimerState = TimerState.Idle;
-    private remainingTime: number = 0;
-    private totalTime: number = 0;
+    private remainingMs = 0;
+    private totalTime = 0;
+    private endTime: number | null = null;
+    private lastTickedSeconds = -1;
     private intervalId: number | null = null;
     private onTick: (remainingTime: number, totalTime: number) => void;
     private onStateChange: (state: TimerState) => void;
@@ -33,53 +59,51 @@ export class PomoTimer {
         this.settings = settings;
     }
 
-    start(state: TimerState) {
+    /**
+     * Starts (or resumes) a session. New sessions last `durationSeconds` when
+     * given, otherwise the configured time for the mode.
+     */
+    start(state: TimerState, durationSeconds?: number) {
         if (state === TimerState.Idle || state === TimerState.Paused) return;
         
         this.state = state;
 
         // Only reset time if it's a new session
-        if (this.remainingTime === 0) {
+        if (this.remainingMs === 0 && durationSeconds !== undefined) {
+            this.totalTime = durationSeconds;
+            this.remainingMs = durationSeconds * 1000;
+        } else if (this.remainingMs === 0) {
+            let minutes = 0;
             switch (this.state) {
                 case TimerState.Work: 
-                    this.remainingTime = this.settings.workTime * 60; 
+                    minutes = this.settings.workTime; 
                     break;
                 case TimerState.ShortBreak: 
-                    this.remainingTime = this.settings.shortBreakTime * 60; 
+                    minutes = this.settings.shortBreakTime; 
                     break;
                 case TimerState.LongBreak: 
-                    this.remainingTime = this.settings.longBreakTime * 60; 
+                    minutes = this.settings.longBreakTime; 
                     break;
             }
-            this.totalTime = this.remainingTime;
-        }
-        
-        if (this.intervalId) {
-            clearInterval(this.intervalId);
+            this.totalTime = minutes * 60;
+            this.remainingMs = this.totalTime * 1000;
         }
 
-        this.intervalId = window.setInterval(() => {
-            this.remainingTime--;
-            this.onTick(this.remainingTime, this.totalTime);
-            
-            if (this.remainingTime <= 0) {
-                const completedState = this.state;
-                this.stop();
-                this.onTimerComplete();
-                this.onStateChange(completedState);
-            }
-        }, 1000);
-        
-        this.onTick(this.remainingTime, this.totalTime);
+        // Count down against the wall clock so sleep and throttled intervals don't skew the session
+        this.endTime = Date.now() + this.remainingMs;
+        this.startTicking();
+        this.onStateChange(this.state);
     }
 
     pause() {
         if (this.intervalId && this.state !== TimerState.Idle && this.state !== TimerState.Paused) {
-            clearInterval(this.intervalId);
-            this.intervalId = null;
+            this.clearTicking();
+            this.remainingMs = this.computeRemainingMs();
+            this.endTime = null;
             this.prePauseState = this.state;
             this.state = TimerState.Paused;
-            this.onTick(this.remainingTime, this.totalTime);
+            this.onTick(this.getRemainingTime(), this.totalTime);
+            this.onStateChange(this.state);
         }
     }
 
@@ -90,14 +114,13 @@ export class PomoTimer {
     }
 
     stop() {
-        if (this.intervalId) {
-            clearInterval(this.intervalId);
-            this.intervalId = null;
-        }
+        this.clearTicking();
         this.state = TimerState.Idle;
-        this.remainingTime = 0;
+        this.remainingMs = 0;
         this.totalTime = 0;
-        this.onTick(this.remainingTime, this.totalTime);
+        this.endTime = null;
+        this.onTick(0, 0);
+        this.onStateChange(this.state);
     }
 
     reset() {
@@ -106,12 +129,145 @@ export class PomoTimer {
         this.onTick(0, 0);
     }
 
+    /**
+     * Adds (or, with a negative value, removes) time from the session in
+     * progress. Removing more than is left while running finishes the session;
+     * a paused session keeps at least one second. Returns false when idle.
+     */
+    addTime(seconds: number): boolean {
+        if (this.state === TimerState.Idle) return false;
+
+        // The session length changes by what is actually removed, like the remaining time
+        const applied = this.getAddableSeconds(seconds);
+        const deltaMs = applied * 1000;
+        this.totalTime = Math.max(1, this.totalTime + applied);
+
+        if (this.state === TimerState.Paused) {
+            this.remainingMs = Math.max(1000, this.remainingMs + deltaMs);
+            this.onTick(this.getRemainingTime(), this.totalTime);
+            this.onStateChange(this.state);
+            return true;
+        }
+
+        if (this.endTime !== null) {
+            this.endTime += deltaMs;
+        }
+        this.lastTickedSeconds = -1;
+        this.onStateChange(this.state);
+        this.tick();
+        return true;
+    }
+
+    /**
+     * The part of `seconds` that addTime applies: all of it when adding, and
+     * at most what is left when removing.
+     */
+    getAddableSeconds(seconds: number): number {
+        if (seconds >= 0) return seconds;
+        const removable = this.getRemainingTime() - (this.state === TimerState.Paused ? 1 : 0);
+        return Math.max(seconds, -Math.max(0, removable));
+    }
+
+    /**
+     * Gives back time that ran while it shouldn't have, e.g. while the user
+     * was away. Unlike addTime the session length stays the same.
+     */
+    rewind(seconds: number): boolean {
+        if (this.state !== TimerState.Paused) return false;
+
+        this.remainingMs = Math.min(this.totalTime * 1000, this.remainingMs + seconds * 1000);
+        this.onTick(this.getRemainingTime(), this.totalTime);
+        return true;
+    }
+
+    /**
+     * Ends the session in progress as if its time had run out.
+     */
+    finishNow(): boolean {
+        if (this.state === TimerState.Idle) return false;
+        this.stop();
+        this.onTimerComplete();
+        return true;
+    }
+
+    /**
+     * Abandons the session in progress without completing it and returns the
+     * mode that was skipped (Idle if nothing was running).
+     */
+    skip(): TimerState {
+        const skipped = this.state === TimerState.Paused ? this.prePauseState : this.state;
+        if (skipped !== TimerState.Idle) {
+            this.stop();
+        }
+        return skipped;
+    }
+
+    /**
+     * Stops the tick loop without emitting callbacks, leaving the
+     * persisted snapshot untouched (used on plugin unload).
+     */
+    dispose() {
+        this.clearTicking();
+    }
+
+    getSnapshot(): TimerSnapshot {
+        return {
+            state: this.state,
+            prePauseState: this.prePauseState,
+            endTime: this.endTime,
+            remainingMs: this.isRunning() ? this.computeRemainingMs() : this.remainingMs,
+            totalTime: this.totalTime
+        };
+    }
+
+    /**
+     * Restores a previously persisted snapshot. Returns true when the snapshot
+     * was a running session whose end time has already passed; the timer is
+     * left idle and the caller is responsible for reporting the completion.
+     */
+    restore(snapshot: TimerSnapshot): boolean {
+        this.clearTicking();
+        this.prePauseState = snapshot.prePauseState;
+        this.totalTime = snapshot.totalTime;
+
+        if (snapshot.state === TimerState.Paused) {
+            this.state = TimerState.Paused;
+            this.remainingMs = snapshot.remainingMs;
+            this.endTime = null;
+            this.onTick(this.getRemainingTime(), this.totalTime);
+            return false;
+        }
+
+        if (snapshot.state === TimerState.Idle || snapshot.endTime === null) {
+            this.state = TimerState.Idle;
+            this.remainingMs = 0;
+            this.totalTime = 0;
+            this.endTime = null;
+            return false;
+        }
+
+        if (snapshot.endTime <= Date.now()) {
+            this.state = TimerState.Idle;
+            this.remainingMs = 0;
+            this.totalTime = 0;
+            this.endTime = null;
+            return true;
+        }
+
+        this.state = snapshot.state;
+        this.endTime = snapshot.endTime;
+        this.remainingMs = this.computeRemainingMs();
+        this.startTicking();
+        return false;
+    }
+
     getState(): TimerState {
         return this.state;
     }
 
     getRemainingTime(): number {
-        return this.remainingTime;
+        const remainingMs = this.isRunning() ? this.computeRemainingMs() : this.remainingMs;
+        return Math.ceil(remainingMs / 1000);
     }
 
     getTotalTime(): number {
@@ -121,6 +277,41 @@ export class PomoTimer {
     isRunning(): boolean {
         return this.state !== TimerState.Idle && this.state !== TimerState.Paused;
     }
+
+    private computeRemainingMs(): number {
+        return this.endTime === null ? this.remainingMs : Math.max(0, this.endTime - Date.now());
+    }
+
+    private startTicking() {
+        this.clearTicking();
+        this.lastTickedSeconds = -1;
+
+        // Poll more often than once a second so the display never skips a second
+        this.intervalId = window.setInterval(() => this.tick(), 250);
+        this.tick();
+    }
+
+    private clearTicking() {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+    }
+
+    private tick() {
+        this.remainingMs = this.computeRemainingMs();
+        const remainingTime = Math.ceil(this.remainingMs / 1000);
+
+        if (remainingTime !== this.lastTickedSeconds) {
+            this.lastTickedSeconds = remainingTime;
+            this.onTick(remainingTime, this.totalTime);
+        }
+
+        if (this.remainingMs <= 0) {
+            this.stop();
+            this.onTimerComplete();
+        }
+    }
 }
 
 export interface PomodoroSettings {
@@ -132,7 +323,66 @@ export interface PomodoroSettings {
     autoStartPomodoros: boolean;
     showDesktopNotification: boolean;
     playSound: boolean;
+    sounds: Record<SoundEvent, SoundChoice>;
+    soundVolume: number;
+    soundRepeat: number;
+    cues: SessionCue[];
+    overtime: boolean;
+    ambientSound: AmbientSound;
+    ambientFile: string;
+    ambientVolume: number;
     showInStatusBar: boolean;
+    showHeaderButton: boolean;
+    profiles: TimerProfile[];
+    activeProfileId: string;
+    logSessions: boolean;
+    sessionLogPath: string;
+    sessionLogFormat: SessionLogFormat;
+    countPomodorosOnTask: boolean;
+    taskCounterStyle: TaskCounterStyle;
+    adjustMinutes: number;
+    dailyNoteEnabled: boolean;
+    dailyNoteIncludeBreaks: boolean;
+    dailyNoteSource: DailyNoteSource;
+    dailyNotePathPattern: string;
+    dailyNoteHeading: string;
+    dailyNoteTemplate: string;
+    dailyGoal: number;
+    weeklyGoal: number;
+    dayStartHour: number;
+    focusModeEnabled: boolean;
+    focusCollapseSidebars: boolean;
+    focusHideStatusBar: boolean;
+    focusHideRibbon: boolean;
+    focusFullScreen: boolean;
+    focusZen: boolean;
+    focusGuard: FocusGuard;
+    focusAllowedFolders: string;
+    focusAllowedTags: string;
+    breakPrompt: BreakPromptStyle;
+    breakStrictness: BreakStrictness;
+    breakSuggestions: string;
+    breakSuggestionsFile: string;
+    breakPostponeMinutes: number;
+    idleDetection: boolean;
+    idleMinutes: number;
+    noTimerReminder: boolean;
+    noTimerReminderMinutes: number;
+    categories: Category[];
+    categoryProperty: string;
+    categoryFromTags: boolean;
+    askCategoryOnStart: boolean;
+    categoryColors: boolean;
+    scheduleSource: ScheduleSource;
+    scheduleNotePath: string;
+    scheduleHeading: string;
+    interruptionNotes: boolean;
+    interruptionInboxPath: string;
+    externalVoidsPomodoro: boolean;
+    reflectionPrompt: boolean;
+    reflectionTarget: ReflectionTarget;
+    reflectionHeading: string;
+    settingsFilePath: string;
 }
 
 export const DEFAULT_SETTINGS: PomodoroSettings = {
@@ -144,5 +394,104 @@ export const DEFAULT_SETTINGS: PomodoroSettings = {
     autoStartPomodoros: false,
     showDesktopNotification: true,
     playSound: true,
-    showInStatusBar: false
-};
\ No newline at end of file
+    sounds: {
+        workEnd: { sound: 'beep', file: '' },
+        breakEnd: { sound: 'chime', file: '' },
+        warning: { sound: 'soft', file: '' }
+    },
+    soundVolume: 100,
+    soundRepeat: 1,
+    cues: [],
+    overtime: false,
+    ambientSound: 'none',
+    ambientFile: '',
+    ambientVolume: 30,
+    showInStatusBar: false,
+    showHeaderButton: true,
+    profiles: [],
+    activeProfileId: 'classic',
+    logSessions: false,
+    sessionLogPath: 'Pomodian/Session log.md',
+    sessionLogFormat: 'markdown',
+    countPomodorosOnTask: true,
+    taskCounterStyle: 'tomato',
+    adjustMinutes: 5,
+    dailyNoteEnabled: false,
+    dailyNoteIncludeBreaks: false,
+    dailyNoteSource: 'core',
+    dailyNotePathPattern: 'Daily/{{date:YYYY-MM-DD}}',
+    dailyNoteHeading: '## Focus log',
+    dailyNoteTemplate: '- {{start}}–{{end}} 🍅 {{mode}} {{note}}',
+    dailyGoal: 8,
+    weeklyGoal: 0,
+    dayStartHour: 0,
+    focusModeEnabled: false,
+    focusCollapseSidebars: true,
+    focusHideStatusBar: true,
+    focusHideRibbon: true,
+    focusFullScreen: false,
+    focusZen: false,
+    focusGuard: 'off',
+    focusAllowedFolders: '',
+    focusAllowedTags: '',
+    breakPrompt: 'off',
+    breakStrictness: 'relaxed',
+    breakSuggestions: [
+        'Stand up and stretch',
+        'Drink a glass of water',
+        'Look at something 20 feet away for 20 seconds',
+        'Take a short walk',
+        'Roll your shoulders and neck',
+        'Take a few slow, deep breaths'
+    ].join('\n'),
+    breakSuggestionsFile: '',
+    breakPostponeMinutes: 5,
+    idleDetection: false,
+    idleMinutes: 5,
+    noTimerReminder: false,
+    noTimerReminderMinutes: 30,
+    categories: [],
+    categoryProperty: 'project',
+    categoryFromTags: true,
+    askCategoryOnStart: false,
+    categoryColors: true,
+    scheduleSource: 'off',
+    scheduleNotePath: 'Schedule.md',
+    scheduleHeading: '## Schedule',
+    interruptionNotes: true,
+    interruptionInboxPath: 'Pomodian/Interruptions.md',
+    externalVoidsPomodoro: false,
+    reflectionPrompt: false,
+    reflectionTarget: 'none',
+    reflectionHeading: '## Reflections',
+    settingsFilePath: 'Pomodian/pomodian-settings.json'
+};
+/**
+ * Plugin-level session state persisted alongside the timer snapshot so a
+ * running, paused or just-finished session can be restored after a restart.
+ */
+export interface PersistedSession {
+    timer: TimerSnapshot;
+    currentMode: TimerState;
+    nextMode: TimerState;
+    completedPomodoros: number;
+    segmentIndex: number;
+    nextSegmentIndex: number;
+    isSessionComplete: boolean;
+    activeRecord: ActiveSession | null;
+    linkedTask: TaskLink | null;
+    category?: string | null;
+    scheduleRun?: ScheduleRun | null;
+    // Keys of today's blocks that were started or skipped
+    scheduleHandled?: string[];
+    // When the focus session ran into overtime, until it is acknowledged
+    overtimeSince?: number | null;
+}
+
+export interface PomodianData {
+    // Settings schema version; missing in data saved before versioning
+    version?: number;
+    settings: PomodoroSettings;
+    session: PersistedSession | null;
+    history: SessionRecord[];
+}
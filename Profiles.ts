@@ -0,0 +1,114 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { PomodoroSettings, TimerState } from './PomoTimer';
+
+/**
+ * One step of a profile's sequence. `type` decides how the session is
+ * treated (focus or break); the label and colour are what the UI shows.
+ * An empty colour falls back to the theme.
+ */
+export interface TimerSegment {
+    type: TimerState;
+    minutes: number;
+    label: string;
+    color: string;
+}
+
+export interface TimerProfile {
+    id: string;
+    name: string;
+    segments: TimerSegment[];
+}
+
+export const CLASSIC_PROFILE_ID = 'classic';
+
+export const DEFAULT_MODE_LABELS: Record<number, string> = {
+    [TimerState.Work]: 'Focus',
+    [TimerState.ShortBreak]: 'Short break',
+    [TimerState.LongBreak]: 'Long break'
+};
+
+export const DEFAULT_PROFILES: TimerProfile[] = [
+    {
+        id: 'deep-work',
+        name: 'Deep work 50/10',
+        segments: [
+            { type: TimerState.Work, minutes: 50, label: 'Deep work', color: '' },
+            { type: TimerState.ShortBreak, minutes: 10, label: 'Short break', color: '' },
+            { type: TimerState.Work, minutes: 50, label: 'Deep work', color: '' },
+            { type: TimerState.ShortBreak, minutes: 10, label: 'Short break', color: '' },
+            { type: TimerState.Work, minutes: 50, label: 'Deep work', color: '' },
+            { type: TimerState.LongBreak, minutes: 30, label: 'Long break', color: '' }
+        ]
+    },
+    {
+        id: 'ultradian',
+        name: 'Ultradian 90/20',
+        segments: [
+            { type: TimerState.Work, minutes: 90, label: 'Ultradian block', color: '' },
+            { type: TimerState.ShortBreak, minutes: 20, label: 'Recovery', color: '' }
+        ]
+    }
+];
+
+/**
+ * The classic profile is derived from the work/break sliders: N focus
+ * sessions separated by short breaks, then a long break.
+ */
+export function buildClassicProfile(settings: PomodoroSettings): TimerProfile {
+    const segments: TimerSegment[] = [];
+    for (let i = 0; i < settings.longBreakInterval; i++) {
+        segments.push({ type: TimerState.Work, minutes: settings.workTime, label: DEFAULT_MODE_LABELS[TimerState.Work], color: '' });
+        segments.push(i < settings.longBreakInterval - 1
+            ? { type: TimerState.ShortBreak, minutes: settings.shortBreakTime, label: DEFAULT_MODE_LABELS[TimerState.ShortBreak], color: '' }
+            : { type: TimerState.LongBreak, minutes: settings.longBreakTime, label: DEFAULT_MODE_LABELS[TimerState.LongBreak], color: '' });
+    }
+    return { id: CLASSIC_PROFILE_ID, name: 'Classic', segments };
+}
+
+export function getAllProfiles(settings: PomodoroSettings): TimerProfile[] {
+    return [buildClassicProfile(settings), ...settings.profiles.filter(profile => profile.segments.length > 0)];
+}
+
+export function getActiveProfile(settings: PomodoroSettings): TimerProfile {
+    return getAllProfiles(settings).find(profile => profile.id === settings.activeProfileId)
+        ?? buildClassicProfile(settings);
+}
+
+/**
+ * Finds the next segment (after `from`, wrapping) of the given type, or
+ * -1 when the profile has none.
+ */
+export function findSegmentIndex(profile: TimerProfile, from: number, type: TimerState): number {
+    const count = profile.segments.length;
+    for (let step = 1; step <= count; step++) {
+        const index = (from + step) % count;
+        if (profile.segments[index].type === type) {
+            return index;
+        }
+    }
+    return -1;
+}
+
+export class ProfileSuggestModal extends FuzzySuggestModal<TimerProfile> {
+    private profiles: TimerProfile[];
+    private onChoose: (profile: TimerProfile) => void;
+
+    constructor(app: App, profiles: TimerProfile[], onChoose: (profile: TimerProfile) => void) {
+        super(app);
+        this.profiles = profiles;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Switch timer profile');
+    }
+
+    getItems(): TimerProfile[] {
+        return this.profiles;
+    }
+
+    getItemText(profile: TimerProfile): string {
+        return profile.name;
+    }
+
+    onChooseItem(profile: TimerProfile) {
+        this.onChoose(profile);
+    }
+}
@@ -0,0 +1,88 @@
+import { ObsidianProtocolData } from 'obsidian';
+import { TimerState } from './PomoTimer';
+import { MAX_MINUTES } from './QuickStart';
+
+// obsidian://pomodian?action=start&mode=work&minutes=40&note=Spec
+export const PROTOCOL_ACTION = 'pomodian';
+
+export const PROTOCOL_ACTIONS = ['start', 'pause', 'resume', 'reset', 'skip', 'switch-mode', 'status'] as const;
+
+export type ProtocolAction = typeof PROTOCOL_ACTIONS[number];
+
+export interface ProtocolRequest {
+    action: ProtocolAction;
+    mode: TimerState | null;
+    minutes: number | null;
+    note: string | null;
+    category: string | null;
+    copy: boolean;
+}
+
+const MODE_NAMES: Record<string, TimerState> = {
+    'work': TimerState.Work,
+    'focus': TimerState.Work,
+    'short-break': TimerState.ShortBreak,
+    'short': TimerState.ShortBreak,
+    'break': TimerState.ShortBreak,
+    'long-break': TimerState.LongBreak,
+    'long': TimerState.LongBreak
+};
+
+/**
+ * Obsidian passes the registered action in `action`, so the timer action
+ * can also be given as a path: obsidian://pomodian/start?mode=work.
+ */
+function getRequestedAction(params: ObsidianProtocolData): string {
+    const prefix = `${PROTOCOL_ACTION}/`;
+    if (params.action.startsWith(prefix)) {
+        return params.action.slice(prefix.length);
+    }
+    return params.action === PROTOCOL_ACTION ? '' : params.action;
+}
+
+function getParam(params: ObsidianProtocolData, key: string): string | null {
+    const value = params[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Reads and validates the parameters of a pomodian URI. Throws with a
+ * message fit for a Notice when any of them is missing or invalid.
+ */
+export function parseProtocolRequest(params: ObsidianProtocolData): ProtocolRequest {
+    const action = getRequestedAction(params).toLowerCase().replace(/[\s_]+/g, '-');
+    if (!action) {
+        throw new Error(`Missing action. Use one of: ${PROTOCOL_ACTIONS.join(', ')}`);
+    }
+    if (!(PROTOCOL_ACTIONS as readonly string[]).includes(action)) {
+        throw new Error(`Unknown action "${action}". Use one of: ${PROTOCOL_ACTIONS.join(', ')}`);
+    }
+
+    let mode: TimerState | null = null;
+    const modeParam = getParam(params, 'mode');
+    if (modeParam !== null) {
+        mode = MODE_NAMES[modeParam.toLowerCase()] ?? null;
+        if (mode === null) {
+            throw new Error(`Unknown mode "${modeParam}". Use work, short-break or long-break`);
+        }
+    }
+
+    let minutes: number | null = null;
+    const minutesParam = getParam(params, 'minutes');
+    if (minutesParam !== null) {
+        // Round first, so the range check applies to the minutes actually used
+        minutes = Math.round(Number(minutesParam));
+        if (!Number.isFinite(minutes) || minutes < 1 || minutes > MAX_MINUTES) {
+            throw new Error(`Minutes must be a number between 1 and ${MAX_MINUTES}, not "${minutesParam}"`);
+        }
+    }
+
+    return {
+        action: action as ProtocolAction,
+        mode,
+        minutes,
+        note: getParam(params, 'note'),
+        category: getParam(params, 'category'),
+        copy: params.copy === 'true'
+    };
+}
@@ -0,0 +1,96 @@
+import { App, SuggestModal } from 'obsidian';
+import { TimerState } from './PomoTimer';
+import { DEFAULT_MODE_LABELS } from './Profiles';
+
+export const MAX_MINUTES = 12 * 60;
+
+export interface QuickStartOption {
+    mode: TimerState;
+    minutes: number;
+    label: string;
+}
+
+/**
+ * Reads a loose "duration and mode" entry such as "45", "1h", "1h30",
+ * "1.5 hours" or "20m break". Returns null when there is nothing to go on;
+ * `minutes` is null when only a mode was given.
+ */
+export function parseQuickStart(query: string): { mode: TimerState | null; minutes: number | null } | null {
+    let text = query.trim().toLowerCase();
+    if (!text) return null;
+
+    let mode: TimerState | null = null;
+    if (/long/.test(text)) {
+        mode = TimerState.LongBreak;
+    } else if (/break|rest|short/.test(text)) {
+        mode = TimerState.ShortBreak;
+    } else if (/focus|work/.test(text)) {
+        mode = TimerState.Work;
+    }
+
+    let minutes = 0;
+    const hours = text.match(/(\d+(?:[.,]\d+)?)\s*h/);
+    if (hours) {
+        minutes += parseFloat(hours[1].replace(',', '.')) * 60;
+        text = text.replace(hours[0], ' ');
+    }
+    const rest = text.match(/(\d+(?:[.,]\d+)?)/);
+    if (rest) {
+        minutes += parseFloat(rest[1].replace(',', '.'));
+    }
+
+    if (!hours && !rest) {
+        return mode === null ? null : { mode, minutes: null };
+    }
+    minutes = Math.round(minutes);
+    if (minutes <= 0 || minutes > MAX_MINUTES) return null;
+    return { mode, minutes };
+}
+
+export function formatMinutes(minutes: number): string {
+    if (minutes < 60) {
+        return `${minutes} min`;
+    }
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+/**
+ * "Start focus for…" prompt: type a duration (and optionally a mode) or
+ * pick one of the active profile's segments.
+ */
+export class QuickStartModal extends SuggestModal<QuickStartOption> {
+    private presets: QuickStartOption[];
+    private onChoose: (option: QuickStartOption) => void;
+
+    constructor(app: App, presets: QuickStartOption[], onChoose: (option: QuickStartOption) => void) {
+        super(app);
+        this.presets = presets;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Start focus for… e.g. 45, 1h or 20m break');
+    }
+
+    getSuggestions(query: string): QuickStartOption[] {
+        const parsed = parseQuickStart(query);
+        if (!parsed) {
+            const text = query.trim().toLowerCase();
+            return this.presets.filter(preset => preset.label.toLowerCase().includes(text));
+        }
+
+        const mode = parsed.mode ?? TimerState.Work;
+        const matching = this.presets.filter(preset => preset.mode === mode);
+        if (parsed.minutes === null) return matching;
+
+        const label = matching[0]?.label ?? DEFAULT_MODE_LABELS[mode];
+        return [{ mode, minutes: parsed.minutes, label }];
+    }
+
+    renderSuggestion(option: QuickStartOption, el: HTMLElement) {
+        el.setText(`Start ${option.label.toLowerCase()} for ${formatMinutes(option.minutes)}`);
+    }
+
+    onChooseSuggestion(option: QuickStartOption) {
+        this.onChoose(option);
+    }
+}
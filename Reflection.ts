@@ -0,0 +1,116 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export type ReflectionTarget = 'none' | 'note' | 'daily';
+
+/**
+ * Answers to the end-of-focus questions, saved with the session record.
+ */
+export interface Reflection {
+    accomplished: string;
+    // 1 (scattered) to 5 (deep focus); null when not rated
+    rating: number | null;
+    next: string;
+}
+
+const MAX_RATING = 5;
+
+function isEmpty(reflection: Reflection): boolean {
+    return !reflection.accomplished && reflection.rating === null && !reflection.next;
+}
+
+/**
+ * A list item with the answers nested below it, e.g.
+ * "- 10:15 Focus ★★★★☆ [[Spec]]".
+ */
+export function formatReflection(reflection: Reflection, heading: string): string {
+    const stars = reflection.rating !== null
+        ? ` ${'★'.repeat(reflection.rating)}${'☆'.repeat(MAX_RATING - reflection.rating)}`
+        : '';
+    const lines = [`- ${heading}${stars}`];
+    if (reflection.accomplished) {
+        lines.push(`    - Accomplished: ${reflection.accomplished.replace(/\s*\n\s*/g, ' ')}`);
+    }
+    if (reflection.next) {
+        lines.push(`    - Next: ${reflection.next.replace(/\s*\n\s*/g, ' ')}`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Asked when a focus session ends. Saving or skipping acknowledges the
+ * session; `onDone` receives null when it was skipped or left empty.
+ */
+export class ReflectionModal extends Modal {
+    private reflection: Reflection = { accomplished: '', rating: null, next: '' };
+    private onDone: (reflection: Reflection | null) => void;
+    private ratingButtons: HTMLButtonElement[] = [];
+    private saved = false;
+
+    constructor(app: App, onDone: (reflection: Reflection | null) => void) {
+        super(app);
+        this.onDone = onDone;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('How did that session go?');
+        contentEl.addClass('pomodoro-reflection');
+
+        new Setting(contentEl)
+            .setName('What did you accomplish?')
+            .addTextArea(text => {
+                text.onChange(value => this.reflection.accomplished = value.trim());
+                setTimeout(() => text.inputEl.focus(), 0);
+            });
+
+        const rating = new Setting(contentEl)
+            .setName('Focus')
+            .setDesc('1: scattered, 5: deep focus');
+        const stars = rating.controlEl.createDiv({ cls: 'pomodoro-rating' });
+        for (let value = 1; value <= MAX_RATING; value++) {
+            const button = stars.createEl('button', { cls: 'pomodoro-rating-star', text: '★', attr: { 'aria-label': `${value} of ${MAX_RATING}` } });
+            // Clicking the current rating again clears it
+            button.onclick = () => this.setRating(this.reflection.rating === value ? null : value);
+            this.ratingButtons.push(button);
+        }
+
+        new Setting(contentEl)
+            .setName("What's next?")
+            .addTextArea(text => text
+                .onChange(value => this.reflection.next = value.trim()));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => this.save()))
+            .addButton(button => button
+                .setButtonText('Skip')
+                .onClick(() => this.close()));
+
+        this.scope.register(['Mod'], 'Enter', () => {
+            this.save();
+            return false;
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        if (!this.saved) {
+            this.onDone(null);
+        }
+    }
+
+    private setRating(rating: number | null) {
+        this.reflection.rating = rating;
+        this.ratingButtons.forEach((button, index) => {
+            button.toggleClass('is-active', rating !== null && index < rating);
+        });
+    }
+
+    private save() {
+        this.saved = true;
+        this.onDone(isEmpty(this.reflection) ? null : { ...this.reflection });
+        this.close();
+    }
+}
@@ -0,0 +1,176 @@
+import { App, Modal, Setting } from 'obsidian';
+import { TimerState } from './PomoTimer';
+
+export type ScheduleSource = 'off' | 'note' | 'daily';
+
+/**
+ * A planned block such as "- 09:00-10:40 Deep work [[Spec]]". Times are
+ * minutes after midnight.
+ */
+export interface ScheduleBlock {
+    start: number;
+    end: number;
+    title: string;
+    link: string | null;
+}
+
+/**
+ * The block whose sessions the timer is running; persisted with the
+ * session so it carries on after a restart.
+ */
+export interface ScheduleRun {
+    key: string;
+    title: string;
+    notePath: string | null;
+    endsAt: number;
+}
+
+// Later than this after a block's start, ask before starting it
+export const MISSED_GRACE_MINUTES = 2;
+
+// Shorter focus sessions aren't worth starting at the end of a block
+const MIN_FOCUS_SECONDS = 5 * 60;
+
+const BLOCK_PATTERN = /^\s*[-*+]\s+(?:\[.\]\s+)?(\d{1,2}):(\d{2})\s*[-–—]\s*(\d{1,2}):(\d{2})\s+(.+)$/;
+
+/**
+ * The lines under `heading` up to the next heading of the same or a higher
+ * level, or every line when no heading is given. Empty when it is missing.
+ */
+function getSectionLines(content: string, heading: string): string[] {
+    const lines = content.split('\n');
+    const headingText = heading.trim();
+    if (!headingText) return lines;
+
+    const level = headingText.match(/^#+/)?.[0].length ?? 0;
+    const start = lines.findIndex(line => line.trim() === headingText);
+    if (start === -1) return [];
+
+    const section: string[] = [];
+    for (let i = start + 1; i < lines.length; i++) {
+        const match = lines[i].match(/^(#+)\s/);
+        if (match && match[1].length <= level) break;
+        section.push(lines[i]);
+    }
+    return section;
+}
+
+/**
+ * Reads the time blocks of a planning note, sorted by start time. Lines
+ * that aren't blocks, or end before they start, are ignored.
+ */
+export function parseSchedule(content: string, heading: string): ScheduleBlock[] {
+    const blocks: ScheduleBlock[] = [];
+    for (const line of getSectionLines(content, heading)) {
+        const match = line.match(BLOCK_PATTERN);
+        if (!match) continue;
+
+        const [startHours, startMinutes, endHours, endMinutes] = match.slice(1, 5).map(value => parseInt(value, 10));
+        if (startHours > 24 || endHours > 24 || startMinutes > 59 || endMinutes > 59) continue;
+        const start = startHours * 60 + startMinutes;
+        const end = endHours * 60 + endMinutes;
+        if (end <= start) continue;
+
+        const text = match[5].trim();
+        const link = text.match(/\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]/)?.[1].trim() ?? null;
+        const title = text.replace(/\[\[(?:[^\]|]+\|)?([^\]]+)\]\]/g, '$1').trim();
+        blocks.push({ start, end, title: title || 'Time block', link });
+    }
+    return blocks.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Pairs of blocks whose times overlap. Blocks must be sorted by start.
+ */
+export function findOverlaps(blocks: ScheduleBlock[]): [ScheduleBlock, ScheduleBlock][] {
+    const overlaps: [ScheduleBlock, ScheduleBlock][] = [];
+    blocks.forEach((block, index) => {
+        for (const other of blocks.slice(index + 1)) {
+            if (other.start < block.end) {
+                overlaps.push([block, other]);
+            }
+        }
+    });
+    return overlaps;
+}
+
+export function formatBlockTime(minutes: number): string {
+    return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+export function formatBlock(block: ScheduleBlock): string {
+    return `${formatBlockTime(block.start)}–${formatBlockTime(block.end)} ${block.title}`;
+}
+
+/**
+ * Identifies a block on a given day, so it is started or skipped only once.
+ */
+export function getBlockKey(day: string, block: ScheduleBlock): string {
+    return `${day} ${formatBlockTime(block.start)}-${formatBlockTime(block.end)} ${block.title}`;
+}
+
+/**
+ * What to run next in a block: focus and short breaks alternate until the
+ * block ends. The last focus session stretches over a leftover too short
+ * for another break and focus; null means the block is done.
+ */
+export function getNextScheduledStep(
+    previous: TimerState | null,
+    remainingSeconds: number,
+    workSeconds: number,
+    breakSeconds: number
+): { mode: TimerState; seconds: number } | null {
+    if (previous === TimerState.Work) {
+        return remainingSeconds >= breakSeconds + MIN_FOCUS_SECONDS
+            ? { mode: TimerState.ShortBreak, seconds: breakSeconds }
+            : null;
+    }
+
+    if (remainingSeconds < MIN_FOCUS_SECONDS) return null;
+    const seconds = remainingSeconds - workSeconds < breakSeconds + MIN_FOCUS_SECONDS ? remainingSeconds : workSeconds;
+    return { mode: TimerState.Work, seconds: Math.round(seconds) };
+}
+
+/**
+ * Asked when a block is due but can't start on its own: it was missed,
+ * or another session or block is still running.
+ */
+export class ScheduleBlockModal extends Modal {
+    private message: string;
+    private onChoose: (start: boolean) => void;
+    private chosen = false;
+
+    constructor(app: App, message: string, onChoose: (start: boolean) => void) {
+        super(app);
+        this.message = message;
+        this.onChoose = onChoose;
+    }
+
+    onOpen() {
+        this.titleEl.setText('Scheduled block');
+        this.contentEl.createEl('p', { text: this.message });
+
+        new Setting(this.contentEl)
+            .addButton(button => button
+                .setButtonText('Start now')
+                .setCta()
+                .onClick(() => this.choose(true)))
+            .addButton(button => button
+                .setButtonText('Skip block')
+                .onClick(() => this.choose(false)));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        // Closing without a choice skips the block rather than interrupting anything
+        if (!this.chosen) {
+            this.onChoose(false);
+        }
+    }
+
+    private choose(start: boolean) {
+        this.chosen = true;
+        this.onChoose(start);
+        this.close();
+    }
+}
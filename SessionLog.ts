@@ -0,0 +1,251 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { TimerState } from './PomoTimer';
+import { InterruptionCounts, InterruptionKind } from './Interruptions';
+import { Reflection } from './Reflection';
+
+// 'voided': ran to the end but an external interruption cancelled the pomodoro
+export type SessionOutcome = 'completed' | 'voided' | 'reset' | 'skipped';
+
+export type SessionLogFormat = 'markdown' | 'csv';
+
+/**
+ * A finished Work/ShortBreak/LongBreak run. Timestamps are epoch milliseconds,
+ * durations are in seconds.
+ */
+export interface SessionRecord {
+    mode: TimerState;
+    start: number;
+    end: number;
+    plannedSeconds: number;
+    actualSeconds: number;
+    adjustedSeconds?: number;
+    pauseCount: number;
+    outcome: SessionOutcome;
+    notePath?: string | null;
+    task?: string | null;
+    category?: string | null;
+    interruptions?: InterruptionCounts;
+    reflection?: Reflection;
+    // Time kept working after the session ran out, not part of actualSeconds
+    overtimeSeconds?: number;
+}
+
+/**
+ * The session currently being timed. Persisted with the timer snapshot so
+ * pauses and start time survive a restart.
+ */
+export interface ActiveSession {
+    mode: TimerState;
+    start: number;
+    plannedSeconds: number;
+    adjustedSeconds: number;
+    pauseCount: number;
+    pausedMs: number;
+    pausedAt: number | null;
+    notePath: string | null;
+    task: string | null;
+    category?: string | null;
+    interruptions?: InterruptionCounts;
+}
+
+export class SessionTracker {
+    private active: ActiveSession | null = null;
+
+    begin(mode: TimerState, plannedSeconds: number, notePath: string | null, task: string | null, category: string | null = null, now = Date.now()) {
+        this.active = {
+            mode,
+            start: now,
+            plannedSeconds,
+            adjustedSeconds: 0,
+            pauseCount: 0,
+            pausedMs: 0,
+            pausedAt: null,
+            notePath,
+            task,
+            category,
+            interruptions: { internal: 0, external: 0 }
+        };
+    }
+
+    /**
+     * Records time added to (or removed from) the session in progress.
+     */
+    adjust(seconds: number) {
+        if (this.active) {
+            this.active.adjustedSeconds = (this.active.adjustedSeconds ?? 0) + seconds;
+        }
+    }
+
+    /**
+     * Binds a task to the session in progress, e.g. when it is picked after starting.
+     */
+    setTask(task: string | null) {
+        if (this.active) {
+            this.active.task = task;
+        }
+    }
+
+    setCategory(category: string | null) {
+        if (this.active) {
+            this.active.category = category;
+        }
+    }
+
+    /**
+     * Counts an interruption against the session in progress and returns
+     * the new counts, or null when nothing is being timed.
+     */
+    interrupt(kind: InterruptionKind): InterruptionCounts | null {
+        if (!this.active) return null;
+        const counts = this.active.interruptions ?? { internal: 0, external: 0 };
+        counts[kind]++;
+        this.active.interruptions = counts;
+        return { ...counts };
+    }
+
+    pause(now = Date.now()) {
+        if (!this.active || this.active.pausedAt !== null) return;
+        this.active.pauseCount++;
+        this.active.pausedAt = now;
+    }
+
+    /**
+     * Moves the start of the current pause back to `since`, so time spent
+     * idle before an automatic pause doesn't count as focus time.
+     */
+    backdatePause(since: number) {
+        if (!this.active || this.active.pausedAt === null) return;
+        this.active.pausedAt = Math.max(this.active.start, Math.min(this.active.pausedAt, since));
+    }
+
+    resume(now = Date.now()) {
+        if (!this.active || this.active.pausedAt === null) return;
+        this.active.pausedMs += now - this.active.pausedAt;
+        this.active.pausedAt = null;
+    }
+
+    /**
+     * Closes the active session and returns its record, or null when nothing
+     * was being timed.
+     */
+    finish(outcome: SessionOutcome, now = Date.now()): SessionRecord | null {
+        if (!this.active) return null;
+        this.resume(now);
+
+        const { mode, start, plannedSeconds, adjustedSeconds, pauseCount, pausedMs, notePath, task, category, interruptions } = this.active;
+        this.active = null;
+
+        return {
+            mode,
+            start,
+            end: now,
+            plannedSeconds,
+            actualSeconds: Math.max(0, Math.round((now - start - pausedMs) / 1000)),
+            adjustedSeconds: adjustedSeconds ?? 0,
+            pauseCount,
+            outcome,
+            notePath,
+            task,
+            category: category ?? null,
+            interruptions: interruptions ?? { internal: 0, external: 0 }
+        };
+    }
+
+    isActive(): boolean {
+        return this.active !== null;
+    }
+
+    getActive(): ActiveSession | null {
+        return this.active ? { ...this.active } : null;
+    }
+
+    restore(active: ActiveSession | null) {
+        this.active = active ? { ...active } : null;
+    }
+}
+
+const MARKDOWN_HEADER = [
+    '| Mode | Start | End | Planned (min) | Actual (min) | Adjusted (min) | Pauses | Outcome | Note | Task | Category | Internal | External | Overtime (min) |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |'
+].join('\n');
+
+const CSV_HEADER = 'mode,start,end,planned_seconds,actual_seconds,adjusted_seconds,pauses,outcome,note,task,category,internal_interruptions,external_interruptions,overtime_seconds';
+
+/**
+ * Appends session records to a note in the vault, creating the note (and its
+ * folder) with a header on first use.
+ */
+export class SessionLogWriter {
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    async append(path: string, format: SessionLogFormat, record: SessionRecord) {
+        const filePath = normalizePath(path);
+        const row = format === 'csv' ? this.toCsvRow(record) : this.toMarkdownRow(record);
+        const existing = this.app.vault.getAbstractFileByPath(filePath);
+
+        if (existing instanceof TFile) {
+            const content = await this.app.vault.read(existing);
+            const separator = content.length === 0 || content.endsWith('\n') ? '' : '\n';
+            await this.app.vault.append(existing, `${separator}${row}\n`);
+            return;
+        }
+
+        await this.ensureFolder(filePath);
+        const header = format === 'csv' ? CSV_HEADER : MARKDOWN_HEADER;
+        await this.app.vault.create(filePath, `${header}\n${row}\n`);
+    }
+
+    private async ensureFolder(filePath: string) {
+        const folder = filePath.split('/').slice(0, -1).join('/');
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+    }
+
+    private toMarkdownRow(record: SessionRecord): string {
+        const cells = [
+            TimerState[record.mode],
+            moment(record.start).format('YYYY-MM-DD HH:mm'),
+            moment(record.end).format('YYYY-MM-DD HH:mm'),
+            (record.plannedSeconds / 60).toFixed(1),
+            (record.actualSeconds / 60).toFixed(1),
+            ((record.adjustedSeconds ?? 0) / 60).toFixed(1),
+            record.pauseCount.toString(),
+            record.outcome,
+            record.notePath ? `[[${record.notePath.replace(/\.md$/, '')}]]` : '',
+            record.task ?? '',
+            record.category ?? '',
+            (record.interruptions?.internal ?? 0).toString(),
+            (record.interruptions?.external ?? 0).toString(),
+            ((record.overtimeSeconds ?? 0) / 60).toFixed(1)
+        ];
+        return `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+    }
+
+    private toCsvRow(record: SessionRecord): string {
+        return [
+            TimerState[record.mode],
+            moment(record.start).format(),
+            moment(record.end).format(),
+            record.plannedSeconds,
+            record.actualSeconds,
+            record.adjustedSeconds ?? 0,
+            record.pauseCount,
+            record.outcome,
+            this.toCsvField(record.notePath ?? ''),
+            this.toCsvField(record.task ?? ''),
+            this.toCsvField(record.category ?? ''),
+            record.interruptions?.internal ?? 0,
+            record.interruptions?.external ?? 0,
+            record.overtimeSeconds ?? 0
+        ].join(',');
+    }
+
+    private toCsvField(value: string): string {
+        return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+}
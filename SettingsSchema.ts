@@ -0,0 +1,310 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+import { DEFAULT_SETTINGS, PomodoroSettings, TimerState } from './PomoTimer';
+import { DEFAULT_PROFILES, TimerProfile, TimerSegment } from './Profiles';
+import { Category } from './Categories';
+import { CueAlert, CueType, SessionCue } from './Cues';
+
+export const SETTINGS_VERSION = 2;
+
+// Marks exported files so an unrelated JSON file isn't imported by mistake
+export const SETTINGS_EXPORT_TYPE = 'pomodian-settings';
+
+export interface SettingsExport {
+    type: typeof SETTINGS_EXPORT_TYPE;
+    version: number;
+    settings: PomodoroSettings;
+}
+
+type RawSettings = Record<string, unknown>;
+
+/**
+ * Upgrades settings saved by older versions; entry n migrates from
+ * version n to n + 1.
+ */
+const MIGRATIONS: ((settings: RawSettings) => void)[] = [
+    // 0 → 1: profiles were added, so seed the sample profiles
+    (settings) => {
+        if (!Array.isArray(settings.profiles)) {
+            settings.profiles = JSON.parse(JSON.stringify(DEFAULT_PROFILES));
+        }
+    },
+    // 1 → 2: the last-minute warning became one of several cues
+    (settings) => {
+        if (!Array.isArray(settings.cues)) {
+            settings.cues = settings.lastMinuteWarning === true
+                ? [{ type: 'remaining', value: 1, alert: 'sound', focusOnly: false }]
+                : [];
+        }
+        delete settings.lastMinuteWarning;
+    }
+];
+
+// Matches the slider bounds in the settings tab
+const NUMBER_RANGES: Partial<Record<keyof PomodoroSettings, [number, number]>> = {
+    workTime: [1, 60],
+    shortBreakTime: [1, 30],
+    longBreakTime: [1, 60],
+    longBreakInterval: [2, 10],
+    adjustMinutes: [1, 30],
+    soundVolume: [0, 100],
+    soundRepeat: [1, 5],
+    ambientVolume: [0, 100],
+    dailyGoal: [0, 24],
+    weeklyGoal: [0, 100],
+    dayStartHour: [0, 12],
+    breakPostponeMinutes: [1, 15],
+    idleMinutes: [1, 30],
+    noTimerReminderMinutes: [5, 120]
+};
+
+const ENUM_VALUES: Partial<Record<keyof PomodoroSettings, readonly string[]>> = {
+    ambientSound: ['none', 'ticking', 'brown-noise', 'white-noise', 'file'],
+    sessionLogFormat: ['markdown', 'csv'],
+    taskCounterStyle: ['tomato', 'inline-field'],
+    dailyNoteSource: ['core', 'custom'],
+    focusGuard: ['off', 'warn', 'block'],
+    breakPrompt: ['off', 'notification', 'overlay'],
+    breakStrictness: ['relaxed', 'moderate', 'strict'],
+    scheduleSource: ['off', 'note', 'daily'],
+    reflectionTarget: ['none', 'note', 'daily']
+};
+
+const CUE_TYPES: CueType[] = ['remaining', 'elapsed'];
+const CUE_ALERTS: CueAlert[] = ['sound', 'notice', 'notification'];
+
+const SEGMENT_TYPES = [TimerState.Work, TimerState.ShortBreak, TimerState.LongBreak];
+const MAX_SEGMENT_MINUTES = 600;
+
+function isObject(value: unknown): value is RawSettings {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function getDefaultSettings(): PomodoroSettings {
+    // Clone so nested objects are never shared with DEFAULT_SETTINGS
+    return JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+}
+
+/**
+ * Runs the migrations a settings object saved at `version` still needs.
+ */
+export function migrateSettings(raw: unknown, version: number): RawSettings {
+    const settings: RawSettings = isObject(raw) ? { ...raw } : {};
+    for (let step = Math.max(0, version); step < MIGRATIONS.length; step++) {
+        MIGRATIONS[step](settings);
+    }
+    return settings;
+}
+
+/**
+ * Builds complete settings from untrusted input. Missing, mistyped or
+ * unknown values fall back to the defaults and numbers are clamped to
+ * the ranges the settings tab allows. Every fix is listed in `problems`.
+ */
+export function validateSettings(raw: RawSettings): { settings: PomodoroSettings; problems: string[] } {
+    const settings = getDefaultSettings();
+    const target = settings as unknown as RawSettings;
+    const problems: string[] = [];
+
+    for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof PomodoroSettings)[]) {
+        if (!(key in raw)) continue;
+        const value = raw[key];
+
+        if (key === 'profiles') {
+            settings.profiles = validateProfiles(value, problems);
+            continue;
+        }
+        if (key === 'sounds') {
+            validateSounds(value, settings, problems);
+            continue;
+        }
+        if (key === 'cues') {
+            settings.cues = validateCues(value, problems);
+            continue;
+        }
+        if (key === 'categories') {
+            settings.categories = validateCategories(value, problems);
+            continue;
+        }
+
+        const fallback = DEFAULT_SETTINGS[key];
+        if (typeof value !== typeof fallback) {
+            problems.push(`${key}: expected a ${typeof fallback}`);
+            continue;
+        }
+
+        if (typeof value === 'number') {
+            const range = NUMBER_RANGES[key];
+            if (!Number.isFinite(value)) {
+                problems.push(`${key}: not a number`);
+                continue;
+            }
+            if (range && (value < range[0] || value > range[1])) {
+                problems.push(`${key}: ${value} is outside ${range[0]}–${range[1]}`);
+                target[key] = Math.min(range[1], Math.max(range[0], value));
+                continue;
+            }
+        }
+
+        const allowed = ENUM_VALUES[key];
+        if (allowed && !allowed.includes(value as string)) {
+            problems.push(`${key}: unknown value "${value}"`);
+            continue;
+        }
+
+        target[key] = value;
+    }
+
+    return { settings, problems };
+}
+
+function validateSounds(value: unknown, settings: PomodoroSettings, problems: string[]) {
+    if (!isObject(value)) {
+        problems.push('sounds: expected an object');
+        return;
+    }
+
+    for (const event of Object.keys(settings.sounds) as (keyof PomodoroSettings['sounds'])[]) {
+        const choice = value[event];
+        if (choice === undefined) continue;
+        if (isObject(choice) && typeof choice.sound === 'string' && typeof choice.file === 'string') {
+            settings.sounds[event] = { sound: choice.sound, file: choice.file };
+        } else {
+            problems.push(`sounds.${event}: expected a sound and a file`);
+        }
+    }
+}
+
+function validateCues(value: unknown, problems: string[]): SessionCue[] {
+    if (!Array.isArray(value)) {
+        problems.push('cues: expected a list');
+        return [];
+    }
+
+    const cues: SessionCue[] = [];
+    value.forEach((cue: unknown, index) => {
+        if (!isObject(cue) || !CUE_TYPES.includes(cue.type as CueType) || !CUE_ALERTS.includes(cue.alert as CueAlert)) {
+            problems.push(`cues[${index}]: unknown type or alert`);
+            return;
+        }
+        const max = cue.type === 'elapsed' ? 99 : MAX_SEGMENT_MINUTES;
+        if (typeof cue.value !== 'number' || !Number.isFinite(cue.value) || cue.value < 1 || cue.value > max) {
+            problems.push(`cues[${index}]: value must be between 1 and ${max}`);
+            return;
+        }
+        cues.push({
+            type: cue.type as CueType,
+            value: cue.value,
+            alert: cue.alert as CueAlert,
+            focusOnly: cue.focusOnly === true
+        });
+    });
+    return cues;
+}
+
+function validateCategories(value: unknown, problems: string[]): Category[] {
+    if (!Array.isArray(value)) {
+        problems.push('categories: expected a list');
+        return [];
+    }
+
+    const categories: Category[] = [];
+    value.forEach((category: unknown, index) => {
+        if (!isObject(category) || typeof category.name !== 'string' || !category.name.trim()) {
+            problems.push(`categories[${index}]: missing a name`);
+            return;
+        }
+        categories.push({
+            name: category.name.trim(),
+            color: typeof category.color === 'string' ? category.color : ''
+        });
+    });
+    return categories;
+}
+
+function validateProfiles(value: unknown, problems: string[]): TimerProfile[] {
+    if (!Array.isArray(value)) {
+        problems.push('profiles: expected a list');
+        return [];
+    }
+
+    const profiles: TimerProfile[] = [];
+    value.forEach((profile: unknown, index) => {
+        if (!isObject(profile) || typeof profile.id !== 'string' || !profile.id || !Array.isArray(profile.segments)) {
+            problems.push(`profiles[${index}]: missing an id or segments`);
+            return;
+        }
+
+        const segments: TimerSegment[] = [];
+        profile.segments.forEach((segment: unknown, segmentIndex) => {
+            const where = `profiles[${index}].segments[${segmentIndex}]`;
+            if (!isObject(segment) || !SEGMENT_TYPES.includes(segment.type as TimerState)) {
+                problems.push(`${where}: unknown type`);
+                return;
+            }
+            if (typeof segment.minutes !== 'number' || !Number.isFinite(segment.minutes) || segment.minutes <= 0) {
+                problems.push(`${where}: minutes must be a positive number`);
+                return;
+            }
+            segments.push({
+                type: segment.type as TimerState,
+                minutes: Math.min(MAX_SEGMENT_MINUTES, segment.minutes),
+                label: typeof segment.label === 'string' ? segment.label : '',
+                color: typeof segment.color === 'string' ? segment.color : ''
+            });
+        });
+
+        profiles.push({
+            id: profile.id,
+            name: typeof profile.name === 'string' && profile.name ? profile.name : profile.id,
+            segments
+        });
+    });
+    return profiles;
+}
+
+/**
+ * Reads an exported settings file. Throws when it isn't one.
+ */
+export function parseSettingsExport(json: string): { settings: PomodoroSettings; problems: string[] } {
+    const data: unknown = JSON.parse(json);
+    if (!isObject(data) || data.type !== SETTINGS_EXPORT_TYPE) {
+        throw new Error('Not a Pomodian settings file');
+    }
+
+    const version = typeof data.version === 'number' ? data.version : 0;
+    if (version > SETTINGS_VERSION) {
+        throw new Error('The file was exported by a newer version of Pomodian');
+    }
+    return validateSettings(migrateSettings(data.settings, version));
+}
+
+export function createSettingsExport(settings: PomodoroSettings): string {
+    const data: SettingsExport = {
+        type: SETTINGS_EXPORT_TYPE,
+        version: SETTINGS_VERSION,
+        settings
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+export class JsonFileSuggestModal extends FuzzySuggestModal<TFile> {
+    private onChoose: (file: TFile) => void;
+
+    constructor(app: App, onChoose: (file: TFile) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Import Pomodian settings from…');
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(file => file.extension === 'json');
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile) {
+        this.onChoose(file);
+    }
+}
@@ -0,0 +1,287 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { PomodoroSettings } from './PomoTimer';
+
+export type SoundEvent = 'workEnd' | 'breakEnd' | 'warning';
+
+export type AmbientSound = 'none' | 'ticking' | 'brown-noise' | 'white-noise' | 'file';
+
+/**
+ * `sound` is a built-in chime id, 'file' for a vault audio file at `file`,
+ * or 'none' to stay silent for that event.
+ */
+export interface SoundChoice {
+    sound: string;
+    file: string;
+}
+
+interface Tone {
+    frequency: number;
+    endFrequency?: number;
+    type: OscillatorType;
+    start: number;
+    duration: number;
+}
+
+interface Chime {
+    name: string;
+    length: number;
+    tones: Tone[];
+}
+
+export const BUILT_IN_CHIMES: Record<string, Chime> = {
+    beep: {
+        name: 'Classic beep',
+        length: 1,
+        tones: [{ frequency: 800, endFrequency: 1200, type: 'sine', start: 0, duration: 1 }]
+    },
+    chime: {
+        name: 'Two-tone chime',
+        length: 1.2,
+        tones: [
+            { frequency: 660, type: 'sine', start: 0, duration: 0.6 },
+            { frequency: 880, type: 'sine', start: 0.35, duration: 0.85 }
+        ]
+    },
+    bell: {
+        name: 'Bell',
+        length: 2,
+        tones: [
+            { frequency: 523.25, type: 'sine', start: 0, duration: 2 },
+            { frequency: 1046.5, type: 'sine', start: 0, duration: 1.2 },
+            { frequency: 1568, type: 'triangle', start: 0, duration: 0.6 }
+        ]
+    },
+    digital: {
+        name: 'Digital alarm',
+        length: 0.9,
+        tones: [
+            { frequency: 1000, type: 'square', start: 0, duration: 0.12 },
+            { frequency: 1000, type: 'square', start: 0.25, duration: 0.12 },
+            { frequency: 1000, type: 'square', start: 0.5, duration: 0.12 }
+        ]
+    },
+    soft: {
+        name: 'Soft pulse',
+        length: 1.5,
+        tones: [{ frequency: 392, endFrequency: 330, type: 'triangle', start: 0, duration: 1.5 }]
+    }
+};
+
+// Older WebKit builds only expose the prefixed constructor
+interface WindowWithWebkitAudioContext extends Window {
+    webkitAudioContext?: typeof AudioContext;
+}
+
+/**
+ * Plays notification chimes (synthesized or from the vault) and the optional
+ * ambient loop during focus sessions. One AudioContext is shared for all sounds.
+ */
+export class SoundEngine {
+    private app: App;
+    private settings: PomodoroSettings;
+    private audioContext: AudioContext | null = null;
+    private ambientSource: AudioBufferSourceNode | null = null;
+    private ambientAudio: HTMLAudioElement | null = null;
+
+    constructor(app: App, settings: PomodoroSettings) {
+        this.app = app;
+        this.settings = settings;
+    }
+
+    public updateSettings(settings: PomodoroSettings) {
+        this.settings = settings;
+    }
+
+    play(event: SoundEvent) {
+        this.playChoice(this.settings.sounds[event]);
+    }
+
+    playChoice(choice: SoundChoice) {
+        const volume = this.settings.soundVolume / 100;
+        const repeat = Math.max(1, this.settings.soundRepeat);
+
+        try {
+            if (choice.sound === 'file') {
+                this.playFile(choice.file, volume, repeat);
+            } else if (BUILT_IN_CHIMES[choice.sound]) {
+                this.playChime(BUILT_IN_CHIMES[choice.sound], volume, repeat);
+            }
+        } catch (error) {
+            console.warn('Could not play notification sound:', error);
+        }
+    }
+
+    startAmbient() {
+        if (this.isAmbientPlaying()) return;
+        const volume = this.settings.ambientVolume / 100;
+
+        try {
+            if (this.settings.ambientSound === 'file') {
+                const audio = this.createFileAudio(this.settings.ambientFile, volume);
+                if (!audio) return;
+                audio.loop = true;
+                audio.play().catch((error) => {
+                    console.warn('Could not play ambient sound:', error);
+                    // Let the next start try again
+                    if (this.ambientAudio === audio) {
+                        this.ambientAudio = null;
+                    }
+                });
+                this.ambientAudio = audio;
+                return;
+            }
+
+            const context = this.getAudioContext();
+            const buffer = this.createAmbientBuffer(context, this.settings.ambientSound);
+            if (!context || !buffer) return;
+
+            const gain = context.createGain();
+            gain.gain.setValueAtTime(volume, context.currentTime);
+            gain.connect(context.destination);
+
+            const source = context.createBufferSource();
+            source.buffer = buffer;
+            source.loop = true;
+            source.connect(gain);
+            source.start();
+            this.ambientSource = source;
+        } catch (error) {
+            console.warn('Could not play ambient sound:', error);
+        }
+    }
+
+    stopAmbient() {
+        this.ambientSource?.stop();
+        this.ambientSource = null;
+        this.ambientAudio?.pause();
+        this.ambientAudio = null;
+    }
+
+    isAmbientPlaying(): boolean {
+        return this.ambientSource !== null || this.ambientAudio !== null;
+    }
+
+    dispose() {
+        this.stopAmbient();
+        this.audioContext?.close().catch((error) => {
+            console.warn('Could not close the audio context:', error);
+        });
+        this.audioContext = null;
+    }
+
+    private getAudioContext(): AudioContext | null {
+        if (this.audioContext) {
+            // Browsers suspend contexts created without a user gesture
+            if (this.audioContext.state === 'suspended') {
+                this.audioContext.resume().catch((error) => {
+                    console.warn('Could not resume the audio context:', error);
+                });
+            }
+            return this.audioContext;
+        }
+
+        const windowWithWebkit = window as WindowWithWebkitAudioContext;
+        const AudioContextConstructor = window.AudioContext || windowWithWebkit.webkitAudioContext;
+
+        if (!AudioContextConstructor) {
+            console.warn('AudioContext not supported');
+            return null;
+        }
+
+        this.audioContext = new AudioContextConstructor();
+        return this.audioContext;
+    }
+
+    private playChime(chime: Chime, volume: number, repeat: number) {
+        const context = this.getAudioContext();
+        if (!context) return;
+
+        for (let i = 0; i < repeat; i++) {
+            const offset = context.currentTime + i * (chime.length + 0.2);
+            for (const tone of chime.tones) {
+                const oscillator = context.createOscillator();
+                const gainNode = context.createGain();
+
+                oscillator.connect(gainNode);
+                gainNode.connect(context.destination);
+
+                const start = offset + tone.start;
+                const end = start + tone.duration;
+                oscillator.type = tone.type;
+                oscillator.frequency.setValueAtTime(tone.frequency, start);
+                if (tone.endFrequency) {
+                    oscillator.frequency.setValueAtTime(tone.endFrequency, start + 0.2);
+                }
+
+                // exponentialRamp can't start from zero, so fade from the volume itself
+                gainNode.gain.setValueAtTime(Math.max(0.0001, volume * 0.5), start);
+                gainNode.gain.exponentialRampToValueAtTime(0.0001, end);
+
+                oscillator.start(start);
+                oscillator.stop(end);
+            }
+        }
+    }
+
+    private playFile(path: string, volume: number, repeat: number) {
+        const audio = this.createFileAudio(path, volume);
+        if (!audio) return;
+
+        const play = () => audio.play().catch((error) => {
+            console.warn('Could not play notification sound:', error);
+        });
+        let remaining = repeat - 1;
+        audio.onended = () => {
+            if (remaining-- > 0) {
+                audio.currentTime = 0;
+                play();
+            }
+        };
+        play();
+    }
+
+    private createFileAudio(path: string, volume: number): HTMLAudioElement | null {
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+        if (!(file instanceof TFile)) {
+            console.warn(`Sound file not found: ${path}`);
+            return null;
+        }
+
+        const audio = new Audio(this.app.vault.getResourcePath(file));
+        audio.volume = Math.min(1, Math.max(0, volume));
+        return audio;
+    }
+
+    /**
+     * Builds a short buffer that loops seamlessly for the chosen ambience.
+     */
+    private createAmbientBuffer(context: AudioContext | null, sound: AmbientSound): AudioBuffer | null {
+        if (!context || sound === 'none' || sound === 'file') return null;
+
+        const seconds = sound === 'ticking' ? 1 : 4;
+        const buffer = context.createBuffer(1, context.sampleRate * seconds, context.sampleRate);
+        const data = buffer.getChannelData(0);
+
+        if (sound === 'ticking') {
+            // A 15 ms decaying click at the start of every second
+            const clickLength = Math.floor(context.sampleRate * 0.015);
+            for (let i = 0; i < clickLength; i++) {
+                data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / clickLength, 3);
+            }
+            return buffer;
+        }
+
+        let last = 0;
+        for (let i = 0; i < data.length; i++) {
+            const white = Math.random() * 2 - 1;
+            if (sound === 'white-noise') {
+                data[i] = white * 0.3;
+            } else {
+                // Integrated white noise, kept bounded, gives brown noise
+                last = (last + 0.02 * white) / 1.02;
+                data[i] = last * 3.5;
+            }
+        }
+        return buffer;
+    }
+}
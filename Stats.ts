@@ -0,0 +1,271 @@
+import { moment } from 'obsidian';
+import { TimerState } from './PomoTimer';
+import { SessionRecord } from './SessionLog';
+
+export interface PeriodCount {
+    key: string;
+    label: string;
+    pomodoros: number;
+    minutes: number;
+}
+
+export interface BreakdownEntry {
+    label: string;
+    pomodoros: number;
+    minutes: number;
+}
+
+export interface SessionStats {
+    days: PeriodCount[];
+    weeks: PeriodCount[];
+    todayPomodoros: number;
+    totalPomodoros: number;
+    totalMinutes: number;
+    currentStreak: number;
+    longestStreak: number;
+}
+
+const DAY_FORMAT = 'YYYY-MM-DD';
+
+// Hour at which a new day starts, so late-night sessions count towards the previous day
+let dayStartHour = 0;
+
+export function setDayStartHour(hour: number) {
+    dayStartHour = Math.min(23, Math.max(0, Math.floor(hour) || 0));
+}
+
+/**
+ * The date a timestamp belongs to once the day boundary is applied.
+ */
+export function getStatsDate(timestamp = Date.now()): ReturnType<typeof moment> {
+    return moment(timestamp).subtract(dayStartHour, 'hours');
+}
+
+export function isCompletedPomodoro(record: SessionRecord): boolean {
+    return record.mode === TimerState.Work && record.outcome === 'completed';
+}
+
+/**
+ * Whether a session's minutes count as focus time. A voided pomodoro
+ * doesn't count at all, not even its minutes.
+ */
+export function isFocusTime(record: SessionRecord): boolean {
+    return record.mode === TimerState.Work && record.outcome !== 'voided';
+}
+
+/**
+ * Day a session counts towards, based on when it ended.
+ */
+export function getDayKey(timestamp: number): string {
+    return getStatsDate(timestamp).format(DAY_FORMAT);
+}
+
+export function getWeekKey(timestamp: number): string {
+    return getStatsDate(timestamp).startOf('isoWeek').format(DAY_FORMAT);
+}
+
+export function computeStats(history: SessionRecord[], dayCount = 14, weekCount = 8): SessionStats {
+    const pomodorosByDay = new Map<string, number>();
+    const minutesByDay = new Map<string, number>();
+    const pomodorosByWeek = new Map<string, number>();
+    const minutesByWeek = new Map<string, number>();
+    let totalPomodoros = 0;
+    let totalSeconds = 0;
+
+    for (const record of history) {
+        if (!isFocusTime(record)) continue;
+
+        const day = getDayKey(record.end);
+        const week = getWeekKey(record.end);
+        const minutes = record.actualSeconds / 60;
+        totalSeconds += record.actualSeconds;
+        minutesByDay.set(day, (minutesByDay.get(day) ?? 0) + minutes);
+        minutesByWeek.set(week, (minutesByWeek.get(week) ?? 0) + minutes);
+
+        if (isCompletedPomodoro(record)) {
+            totalPomodoros++;
+            pomodorosByDay.set(day, (pomodorosByDay.get(day) ?? 0) + 1);
+            pomodorosByWeek.set(week, (pomodorosByWeek.get(week) ?? 0) + 1);
+        }
+    }
+
+    const days: PeriodCount[] = [];
+    for (let i = dayCount - 1; i >= 0; i--) {
+        const date = getStatsDate().subtract(i, 'days');
+        const key = date.format(DAY_FORMAT);
+        days.push({
+            key,
+            label: date.format('dd D'),
+            pomodoros: pomodorosByDay.get(key) ?? 0,
+            minutes: Math.round(minutesByDay.get(key) ?? 0)
+        });
+    }
+
+    const weeks: PeriodCount[] = [];
+    for (let i = weekCount - 1; i >= 0; i--) {
+        const date = getStatsDate().startOf('isoWeek').subtract(i, 'weeks');
+        const key = date.format(DAY_FORMAT);
+        weeks.push({
+            key,
+            label: date.format('MMM D'),
+            pomodoros: pomodorosByWeek.get(key) ?? 0,
+            minutes: Math.round(minutesByWeek.get(key) ?? 0)
+        });
+    }
+
+    const { current, longest } = computeStreaks(new Set(pomodorosByDay.keys()));
+
+    return {
+        days,
+        weeks,
+        todayPomodoros: pomodorosByDay.get(getDayKey(Date.now())) ?? 0,
+        totalPomodoros,
+        totalMinutes: Math.round(totalSeconds / 60),
+        currentStreak: current,
+        longestStreak: longest
+    };
+}
+
+/**
+ * Streaks count consecutive days with at least one completed pomodoro. The
+ * current streak is still alive if today has none yet but yesterday did.
+ */
+function computeStreaks(activeDays: Set<string>): { current: number; longest: number } {
+    const sorted = Array.from(activeDays).sort();
+    let longest = 0;
+    let run = 0;
+    let previous: ReturnType<typeof moment> | null = null;
+
+    for (const key of sorted) {
+        const date = moment(key, DAY_FORMAT);
+        run = previous && date.diff(previous, 'days') === 1 ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = date;
+    }
+
+    let current = 0;
+    const cursor = getStatsDate();
+    if (!activeDays.has(cursor.format(DAY_FORMAT))) {
+        cursor.subtract(1, 'day');
+    }
+    while (activeDays.has(cursor.format(DAY_FORMAT))) {
+        current++;
+        cursor.subtract(1, 'day');
+    }
+
+    return { current, longest };
+}
+
+/**
+ * Groups focus time by an arbitrary set of labels per session, e.g. the
+ * linked note or its tags. Sessions without labels are skipped.
+ */
+export function computeBreakdown(history: SessionRecord[], getLabels: (record: SessionRecord) => string[]): BreakdownEntry[] {
+    const entries = new Map<string, BreakdownEntry>();
+
+    for (const record of history) {
+        if (!isFocusTime(record)) continue;
+
+        for (const label of getLabels(record)) {
+            const entry = entries.get(label) ?? { label, pomodoros: 0, minutes: 0 };
+            entry.minutes += record.actualSeconds / 60;
+            if (isCompletedPomodoro(record)) {
+                entry.pomodoros++;
+            }
+            entries.set(label, entry);
+        }
+    }
+
+    return Array.from(entries.values())
+        .map(entry => ({ ...entry, minutes: Math.round(entry.minutes) }))
+        .sort((a, b) => b.minutes - a.minutes);
+}
+
+export interface GoalProgress {
+    today: number;
+    week: number;
+}
+
+/**
+ * Completed pomodoros for the current day and ISO week.
+ */
+export function computeGoalProgress(history: SessionRecord[], now = Date.now()): GoalProgress {
+    const today = getDayKey(now);
+    const week = getWeekKey(now);
+    const progress: GoalProgress = { today: 0, week: 0 };
+
+    for (const record of history) {
+        if (!isCompletedPomodoro(record)) continue;
+        if (getWeekKey(record.end) !== week) continue;
+
+        progress.week++;
+        if (getDayKey(record.end) === today) {
+            progress.today++;
+        }
+    }
+    return progress;
+}
+
+export interface DaySummary {
+    pomodoros: number;
+    focusMinutes: number;
+    breakMinutes: number;
+    sessions: number;
+}
+
+export function computeDaySummary(history: SessionRecord[], dayKey: string): DaySummary {
+    const summary: DaySummary = { pomodoros: 0, focusMinutes: 0, breakMinutes: 0, sessions: 0 };
+
+    for (const record of history) {
+        if (getDayKey(record.end) !== dayKey || record.outcome === 'voided') continue;
+
+        summary.sessions++;
+        if (record.mode === TimerState.Work) {
+            summary.focusMinutes += record.actualSeconds / 60;
+            if (isCompletedPomodoro(record)) {
+                summary.pomodoros++;
+            }
+        } else {
+            summary.breakMinutes += record.actualSeconds / 60;
+        }
+    }
+
+    summary.focusMinutes = Math.round(summary.focusMinutes);
+    summary.breakMinutes = Math.round(summary.breakMinutes);
+    return summary;
+}
+
+/**
+ * Sessions that ended between two day keys (inclusive), optionally only
+ * those linked to one note.
+ */
+export function filterHistory(history: SessionRecord[], fromKey: string, toKey: string, notePath: string | null = null): SessionRecord[] {
+    return history.filter(record => {
+        const day = getDayKey(record.end);
+        return day >= fromKey && day <= toKey && (notePath === null || record.notePath === notePath);
+    });
+}
+
+/**
+ * Completed pomodoros and focus minutes per day key.
+ */
+export function computeDayCounts(history: SessionRecord[]): Map<string, PeriodCount> {
+    const counts = new Map<string, PeriodCount>();
+
+    for (const record of history) {
+        if (!isFocusTime(record)) continue;
+
+        const key = getDayKey(record.end);
+        const count = counts.get(key) ?? { key, label: key, pomodoros: 0, minutes: 0 };
+        count.minutes += record.actualSeconds / 60;
+        if (isCompletedPomodoro(record)) {
+            count.pomodoros++;
+        }
+        counts.set(key, count);
+    }
+
+    for (const count of counts.values()) {
+        count.minutes = Math.round(count.minutes);
+    }
+    return counts;
+}
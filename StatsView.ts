@@ -0,0 +1,155 @@
+import { ItemView, TFile, WorkspaceLeaf, getAllTags } from 'obsidian';
+import type PomodoroPlugin from './main';
+import { SessionRecord } from './SessionLog';
+import { UNCATEGORIZED } from './Categories';
+import { BreakdownEntry, PeriodCount, computeBreakdown, computeStats } from './Stats';
+
+export const VIEW_TYPE_STATS = 'pomodian-stats';
+
+type BreakdownMode = 'note' | 'tag' | 'category';
+
+const BREAKDOWN_HEADINGS: Record<BreakdownMode, string> = {
+    note: 'Note',
+    tag: 'Tag',
+    category: 'Category'
+};
+
+export class StatsView extends ItemView {
+    private plugin: PomodoroPlugin;
+    private breakdownMode: BreakdownMode = 'note';
+
+    constructor(leaf: WorkspaceLeaf, plugin: PomodoroPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_STATS;
+    }
+
+    getDisplayText(): string {
+        return 'Pomodian statistics';
+    }
+
+    getIcon(): string {
+        return 'bar-chart-2';
+    }
+
+    async onOpen() {
+        this.refresh();
+    }
+
+    refresh() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('pomodoro-stats-view');
+
+        const history = this.plugin.getHistory();
+        const stats = computeStats(history);
+
+        container.createEl('h2', { text: 'Focus statistics' });
+
+        // Today's pomodoros as a row of progress dots
+        const today = container.createDiv({ cls: 'pomodoro-stats-today' });
+        today.createSpan({ text: `Today: ${stats.todayPomodoros}` });
+        const dots = today.createDiv({ cls: 'pomodoro-progress-indicator' });
+        for (let i = 0; i < stats.todayPomodoros; i++) {
+            dots.createDiv({ cls: 'pomodoro-progress-dot completed' });
+        }
+
+        const summary = container.createDiv({ cls: 'pomodoro-stats-summary' });
+        this.renderSummaryCard(summary, 'Pomodoros', stats.totalPomodoros.toString());
+        this.renderSummaryCard(summary, 'Focused minutes', stats.totalMinutes.toString());
+        this.renderSummaryCard(summary, 'Current streak', this.formatDays(stats.currentStreak));
+        this.renderSummaryCard(summary, 'Longest streak', this.formatDays(stats.longestStreak));
+
+        container.createEl('h3', { text: 'Per day' });
+        this.renderBarChart(container, stats.days);
+
+        container.createEl('h3', { text: 'Per week' });
+        this.renderBarChart(container, stats.weeks);
+
+        this.renderBreakdown(container, history);
+    }
+
+    private renderSummaryCard(parent: HTMLElement, label: string, value: string) {
+        const card = parent.createDiv({ cls: 'pomodoro-stats-card' });
+        card.createDiv({ cls: 'pomodoro-stats-card-value', text: value });
+        card.createDiv({ cls: 'pomodoro-stats-card-label', text: label });
+    }
+
+    private renderBarChart(parent: HTMLElement, periods: PeriodCount[]) {
+        const chart = parent.createDiv({ cls: 'pomodoro-stats-chart' });
+        const max = Math.max(1, ...periods.map(period => period.pomodoros));
+
+        for (const period of periods) {
+            const column = chart.createDiv({
+                cls: 'pomodoro-stats-column',
+                attr: { 'aria-label': `${period.pomodoros} pomodoros, ${period.minutes} min` }
+            });
+            column.createDiv({ cls: 'pomodoro-stats-count', text: period.pomodoros ? period.pomodoros.toString() : '' });
+            const bar = column.createDiv({ cls: 'pomodoro-stats-bar' });
+            bar.style.setProperty('--bar-height', `${(period.pomodoros / max) * 100}%`);
+            column.createDiv({ cls: 'pomodoro-stats-label', text: period.label });
+        }
+    }
+
+    private renderBreakdown(parent: HTMLElement, history: SessionRecord[]) {
+        const header = parent.createDiv({ cls: 'pomodoro-stats-breakdown-header' });
+        header.createEl('h3', { text: 'Breakdown' });
+
+        const select = header.createEl('select', { cls: 'dropdown' });
+        select.createEl('option', { value: 'note', text: 'By note' });
+        select.createEl('option', { value: 'tag', text: 'By tag' });
+        select.createEl('option', { value: 'category', text: 'By category' });
+        select.value = this.breakdownMode;
+        select.onchange = () => {
+            this.breakdownMode = select.value as BreakdownMode;
+            this.refresh();
+        };
+
+        const entries = computeBreakdown(history, (record) => {
+            if (this.breakdownMode === 'category') return [record.category || UNCATEGORIZED];
+            return this.breakdownMode === 'note' ? this.getNoteLabels(record) : this.getTagLabels(record);
+        });
+        this.renderBreakdownTable(parent, entries);
+    }
+
+    private renderBreakdownTable(parent: HTMLElement, entries: BreakdownEntry[]) {
+        if (entries.length === 0) {
+            parent.createDiv({ cls: 'pomodoro-stats-empty', text: 'No linked focus sessions yet.' });
+            return;
+        }
+
+        const table = parent.createEl('table', { cls: 'pomodoro-stats-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        headerRow.createEl('th', { text: BREAKDOWN_HEADINGS[this.breakdownMode] });
+        headerRow.createEl('th', { text: 'Pomodoros' });
+        headerRow.createEl('th', { text: 'Minutes' });
+
+        const body = table.createEl('tbody');
+        for (const entry of entries) {
+            const row = body.createEl('tr');
+            row.createEl('td', { text: entry.label });
+            row.createEl('td', { text: entry.pomodoros.toString() });
+            row.createEl('td', { text: entry.minutes.toString() });
+        }
+    }
+
+    private getNoteLabels(record: SessionRecord): string[] {
+        if (!record.notePath) return [];
+        return [record.notePath.replace(/\.md$/, '')];
+    }
+
+    private getTagLabels(record: SessionRecord): string[] {
+        if (!record.notePath) return [];
+        const file = this.app.vault.getAbstractFileByPath(record.notePath);
+        if (!(file instanceof TFile)) return [];
+        const cache = this.app.metadataCache.getFileCache(file);
+        return cache ? Array.from(new Set(getAllTags(cache) ?? [])) : [];
+    }
+
+    private formatDays(count: number): string {
+        return count === 1 ? '1 day' : `${count} days`;
+    }
+}
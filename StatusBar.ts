@@ -0,0 +1,72 @@
+import { Menu } from 'obsidian';
+import { TimerState } from './PomoTimer';
+import { TimerActions, TimerDisplayState, getGoalText } from './TimerDisplay';
+
+/**
+ * Compact timer in the status bar, e.g. "Focus 2/4 · 14:32 · 5/8 today". Left click
+ * starts or pauses, right click opens a menu with the remaining controls.
+ */
+export class StatusBarTimer {
+    private el: HTMLElement;
+    private actions: TimerActions;
+    private state: TimerDisplayState | null = null;
+
+    constructor(el: HTMLElement, actions: TimerActions) {
+        this.el = el;
+        this.actions = actions;
+
+        this.el.addClass('pomodoro-status-bar', 'mod-clickable');
+        this.el.setAttribute('aria-label', 'Click: Start/Pause | Right click: More');
+        this.el.onclick = () => this.actions.toggle();
+        this.el.oncontextmenu = (event) => {
+            event.preventDefault();
+            this.openMenu(event);
+        };
+    }
+
+    update(state: TimerDisplayState) {
+        this.state = state;
+        const isWorkMode = state.mode === TimerState.Work;
+        const goalText = getGoalText(state);
+        this.el.setText(`${state.modeText} ${state.cyclePosition}/${state.cycleLength} · ${state.timeText}${goalText ? ` · ${goalText}` : ''}`);
+        this.el.toggleClass('work-mode', isWorkMode);
+        this.el.toggleClass('break-mode', !isWorkMode);
+        this.el.toggleClass('is-running', state.isRunning);
+    }
+
+    remove() {
+        this.el.remove();
+    }
+
+    private openMenu(event: MouseEvent) {
+        const menu = new Menu();
+        menu.addItem(item => item
+            .setTitle('Reset timer')
+            .setIcon('rotate-ccw')
+            .onClick(() => this.actions.reset()));
+        menu.addItem(item => item
+            .setTitle('Switch mode')
+            .setIcon('repeat')
+            .onClick(() => this.actions.switchMode()));
+        menu.addItem(item => item
+            .setTitle('Skip to next mode')
+            .setIcon('skip-forward')
+            .onClick(() => this.actions.skip()));
+
+        const minutes = this.state?.adjustMinutes ?? 5;
+        menu.addSeparator();
+        menu.addItem(item => item
+            .setTitle(`Add ${minutes} minutes`)
+            .setIcon('plus')
+            .onClick(() => this.actions.addMinutes(minutes)));
+        menu.addItem(item => item
+            .setTitle(`Subtract ${minutes} minutes`)
+            .setIcon('minus')
+            .onClick(() => this.actions.addMinutes(-minutes)));
+        menu.addItem(item => item
+            .setTitle('Finish now')
+            .setIcon('check')
+            .onClick(() => this.actions.finishNow()));
+        menu.showAtMouseEvent(event);
+    }
+}
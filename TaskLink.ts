@@ -0,0 +1,106 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+export type TaskCounterStyle = 'tomato' | 'inline-field';
+
+/**
+ * An open `- [ ]` task line a focus session is bound to. The line number is
+ * a hint only; the text is used to find the task again after edits.
+ */
+export interface TaskLink {
+    path: string;
+    line: number;
+    text: string;
+}
+
+const OPEN_TASK_PATTERN = /^\s*[-*+] \[ \] /;
+const POMODORO_FIELD_PATTERN = /\[pomodoros::\s*(\d+)\]/;
+const BLOCK_ID_PATTERN = /\s\^[\w-]+$/;
+const COUNTER_PATTERN = /\s*(?:🍅|\[pomodoros::\s*\d+\])/gu;
+
+export function findOpenTasks(file: TFile, content: string): TaskLink[] {
+    const tasks: TaskLink[] = [];
+    content.split('\n').forEach((text, line) => {
+        if (OPEN_TASK_PATTERN.test(text)) {
+            tasks.push({ path: file.path, line, text });
+        }
+    });
+    return tasks;
+}
+
+/**
+ * Strips the list marker, checkbox and pomodoro counters so the task reads
+ * naturally in logs and keeps the same label as pomodoros are added.
+ */
+export function getTaskLabel(task: TaskLink): string {
+    return task.text.replace(OPEN_TASK_PATTERN, '').replace(COUNTER_PATTERN, '').trim();
+}
+
+/**
+ * Adds one pomodoro to a task line, either as another 🍅 or by bumping an
+ * inline `[pomodoros:: n]` field. Block ids stay at the end of the line.
+ */
+export function addPomodoroToLine(text: string, style: TaskCounterStyle): string {
+    if (style === 'inline-field') {
+        const match = text.match(POMODORO_FIELD_PATTERN);
+        if (match) {
+            return text.replace(POMODORO_FIELD_PATTERN, `[pomodoros:: ${parseInt(match[1], 10) + 1}]`);
+        }
+        return insertBeforeBlockId(text, ' [pomodoros:: 1]');
+    }
+    return insertBeforeBlockId(text, ' 🍅');
+}
+
+function insertBeforeBlockId(text: string, addition: string): string {
+    const trimmed = text.trimEnd();
+    const blockId = trimmed.match(BLOCK_ID_PATTERN);
+    if (blockId) {
+        return trimmed.slice(0, blockId.index) + addition + blockId[0];
+    }
+    return trimmed + addition;
+}
+
+/**
+ * Appends a pomodoro counter to the linked task and returns the updated link,
+ * or null when the task can no longer be found.
+ */
+export async function recordPomodoroOnTask(app: App, task: TaskLink, style: TaskCounterStyle): Promise<TaskLink | null> {
+    const file = app.vault.getAbstractFileByPath(task.path);
+    if (!(file instanceof TFile)) return null;
+
+    let updated: TaskLink | null = null;
+    await app.vault.process(file, data => {
+        const lines = data.split('\n');
+        const index = lines[task.line] === task.text ? task.line : lines.indexOf(task.text);
+        if (index === -1) return data;
+
+        const text = addPomodoroToLine(lines[index], style);
+        lines[index] = text;
+        updated = { path: task.path, line: index, text };
+        return lines.join('\n');
+    });
+    return updated;
+}
+
+export class TaskSuggestModal extends FuzzySuggestModal<TaskLink> {
+    private tasks: TaskLink[];
+    private onChoose: (task: TaskLink) => void;
+
+    constructor(app: App, tasks: TaskLink[], onChoose: (task: TaskLink) => void) {
+        super(app);
+        this.tasks = tasks;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Pick a task to focus on');
+    }
+
+    getItems(): TaskLink[] {
+        return this.tasks;
+    }
+
+    getItemText(task: TaskLink): string {
+        return getTaskLabel(task);
+    }
+
+    onChooseItem(task: TaskLink) {
+        this.onChoose(task);
+    }
+}
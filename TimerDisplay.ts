@@ -0,0 +1,161 @@
+import { TimerState } from './PomoTimer';
+import { InterruptionCounts, InterruptionKind } from './Interruptions';
+
+/**
+ * Everything a timer widget needs to render, computed once per update by the
+ * plugin so the header button, status bar and sidebar always agree.
+ */
+export interface TimerDisplayState {
+    timerState: TimerState;
+    mode: TimerState;
+    modeText: string;
+    modeColor: string | null;
+    nextModeText: string;
+    timeText: string;
+    progress: number;
+    isRunning: boolean;
+    isSessionComplete: boolean;
+    isOvertime: boolean;
+    canSwitchMode: boolean;
+    cyclePosition: number;
+    cycleLength: number;
+    completedInCycle: number;
+    taskLabel: string | null;
+    categoryLabel: string | null;
+    upcomingBlocks: string[];
+    // Null outside a focus session, when interruptions can't be logged
+    interruptions: InterruptionCounts | null;
+    adjustMinutes: number;
+    todayPomodoros: number;
+    dailyGoal: number;
+    weekPomodoros: number;
+    weeklyGoal: number;
+}
+
+export interface TimerActions {
+    toggle: () => void;
+    reset: () => void;
+    switchMode: () => void;
+    skip: () => void;
+    addMinutes: (minutes: number) => void;
+    finishNow: () => void;
+    acknowledge: () => void;
+    pickTask: () => void;
+    pickCategory: () => void;
+    interrupt: (kind: InterruptionKind) => void;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Builds the circular progress ring used by every timer widget and returns
+ * the foreground circle, which `setRingProgress` updates.
+ */
+export function createProgressRing(parent: Element, cls: string, size: number, strokeWidth: number): SVGCircleElement {
+    const center = (size / 2).toString();
+    const radius = ((size - strokeWidth) / 2 - 0.5).toString();
+
+    const svg = document.createElementNS(SVG_NS, 'svg');
+    svg.setAttribute('class', cls);
+    svg.setAttribute('viewBox', `0 0 ${size} ${size}`);
+
+    const track = document.createElementNS(SVG_NS, 'circle');
+    track.setAttribute('class', 'progress-ring__track');
+    track.setAttribute('r', radius);
+    track.setAttribute('cx', center);
+    track.setAttribute('cy', center);
+    track.setAttribute('fill', 'transparent');
+    track.setAttribute('stroke-width', strokeWidth.toString());
+
+    const circle = document.createElementNS(SVG_NS, 'circle');
+    circle.setAttribute('class', 'progress-ring__circle');
+    circle.setAttribute('r', radius);
+    circle.setAttribute('cx', center);
+    circle.setAttribute('cy', center);
+    circle.setAttribute('fill', 'transparent');
+    circle.setAttribute('stroke-width', strokeWidth.toString());
+
+    svg.append(track, circle);
+    parent.appendChild(svg);
+    return circle;
+}
+
+export function setRingProgress(circle: SVGCircleElement, state: TimerDisplayState) {
+    // Remove all mode classes first
+    circle.removeClass('work-mode', 'break-mode', 'progress-complete', 'progress-idle');
+    circle.addClass(state.mode === TimerState.Work ? 'work-mode' : 'break-mode');
+
+    if (state.timerState === TimerState.Idle) {
+        circle.addClass('progress-idle');
+    } else if (state.progress <= 0) {
+        circle.addClass('progress-complete');
+    }
+
+    applyModeColor(circle, state);
+
+    // Set CSS custom properties for progress calculation
+    const circumference = 2 * Math.PI * circle.r.baseVal.value;
+    circle.style.setProperty('--progress', state.progress.toString());
+    circle.style.setProperty('--circumference', circumference.toString());
+}
+
+/**
+ * Applies the active segment's colour, falling back to the theme colours.
+ */
+export function applyModeColor(el: HTMLElement | SVGElement, state: TimerDisplayState) {
+    if (state.modeColor) {
+        el.style.setProperty('--pomodoro-mode-color', state.modeColor);
+    } else {
+        el.style.removeProperty('--pomodoro-mode-color');
+    }
+}
+
+/**
+ * Renders one dot per focus session in the long-break cycle.
+ */
+export function renderCycleDots(parent: HTMLElement, state: TimerDisplayState) {
+    parent.empty();
+    for (let i = 0; i < state.cycleLength; i++) {
+        const dot = parent.createDiv({ cls: 'pomodoro-progress-dot' });
+        if (i < state.completedInCycle) {
+            dot.addClass('completed');
+        } else if (i === state.completedInCycle && state.mode === TimerState.Work && state.timerState !== TimerState.Idle) {
+            dot.addClass('current');
+        }
+    }
+}
+
+/**
+ * Goal progress such as "5/8 today", or null when no daily goal is set.
+ */
+export function getGoalText(state: TimerDisplayState): string | null {
+    return state.dailyGoal > 0 ? `${state.todayPomodoros}/${state.dailyGoal} today` : null;
+}
+
+/**
+ * Renders one dot per pomodoro of the daily goal, filled as they complete.
+ */
+export function renderGoalDots(parent: HTMLElement, state: TimerDisplayState) {
+    parent.empty();
+    parent.toggleClass('goal-reached', state.dailyGoal > 0 && state.todayPomodoros >= state.dailyGoal);
+    for (let i = 0; i < state.dailyGoal; i++) {
+        const dot = parent.createDiv({ cls: 'pomodoro-progress-dot' });
+        if (i < state.todayPomodoros) {
+            dot.addClass('completed');
+        } else if (i === state.todayPomodoros && state.mode === TimerState.Work && state.timerState !== TimerState.Idle) {
+            dot.addClass('current');
+        }
+    }
+}
+
+/**
+ * Shows the interruption buttons during focus sessions, with the counts
+ * so far in their labels.
+ */
+export function updateInterruptionButtons(internalEl: HTMLElement, externalEl: HTMLElement, state: TimerDisplayState) {
+    const counts = state.interruptions;
+    internalEl.toggleClass('is-hidden', !counts);
+    externalEl.toggleClass('is-hidden', !counts);
+    internalEl.setAttribute('aria-label', `Log internal interruption (') · ${counts?.internal ?? 0} so far`);
+    externalEl.setAttribute('aria-label', `Log external interruption (-) · ${counts?.external ?? 0} so far`);
+}
@@ -0,0 +1,125 @@
+import { ItemView, WorkspaceLeaf, setIcon } from 'obsidian';
+import type PomodoroPlugin from './main';
+import { TimerState } from './PomoTimer';
+import { TimerDisplayState, applyModeColor, createProgressRing, getGoalText, renderCycleDots, setRingProgress, updateInterruptionButtons } from './TimerDisplay';
+
+export const VIEW_TYPE_TIMER = 'pomodian-timer';
+
+/**
+ * Sidebar timer that stays visible regardless of which leaf is active.
+ */
+export class TimerView extends ItemView {
+    private plugin: PomodoroPlugin;
+    private ringEl: HTMLDivElement;
+    private circleEl: SVGCircleElement;
+    private timeEl: HTMLDivElement;
+    private modeEl: HTMLDivElement;
+    private toggleButtonEl: HTMLButtonElement;
+    private extendButtonEl: HTMLButtonElement;
+    private shortenButtonEl: HTMLButtonElement;
+    private dotsEl: HTMLDivElement;
+    private nextEl: HTMLDivElement;
+    private taskEl: HTMLDivElement;
+    private categoryEl: HTMLDivElement;
+    private scheduleEl: HTMLDivElement;
+    private internalButtonEl: HTMLButtonElement;
+    private externalButtonEl: HTMLButtonElement;
+
+    constructor(leaf: WorkspaceLeaf, plugin: PomodoroPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_TIMER;
+    }
+
+    getDisplayText(): string {
+        return 'Pomodian timer';
+    }
+
+    getIcon(): string {
+        return 'timer';
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('pomodoro-timer-view');
+
+        const actions = this.plugin.getTimerActions();
+
+        this.modeEl = container.createDiv({ cls: 'pomodoro-panel-mode', attr: { 'role': 'button', 'tabindex': '0' } });
+        this.modeEl.onclick = () => actions.switchMode();
+
+        this.ringEl = container.createDiv({ cls: 'pomodoro-timer-view-ring' });
+        this.circleEl = createProgressRing(this.ringEl, 'pomodoro-timer-view-chart', 100, 6);
+        this.timeEl = this.ringEl.createDiv({ cls: 'pomodoro-timer-view-time' });
+        this.ringEl.onclick = () => {
+            if (this.plugin.getDisplayState().isSessionComplete) {
+                actions.acknowledge();
+            }
+        };
+
+        this.dotsEl = container.createDiv({ cls: 'pomodoro-progress-indicator' });
+
+        const controls = container.createDiv({ cls: 'pomodoro-timer-view-controls' });
+        this.toggleButtonEl = this.createControl(controls, 'play', 'Start', () => actions.toggle());
+        this.createControl(controls, 'rotate-ccw', 'Reset', () => actions.reset());
+        this.createControl(controls, 'skip-forward', 'Skip to next mode', () => actions.skip());
+        this.extendButtonEl = this.createControl(controls, 'plus', 'Add time', () => {
+            actions.addMinutes(this.plugin.getDisplayState().adjustMinutes);
+        });
+        this.shortenButtonEl = this.createControl(controls, 'minus', 'Subtract time', () => {
+            actions.addMinutes(-this.plugin.getDisplayState().adjustMinutes);
+        });
+        this.createControl(controls, 'check', 'Finish now', () => actions.finishNow());
+        this.internalButtonEl = this.createControl(controls, 'brain', "Log internal interruption (')", () => actions.interrupt('internal'));
+        this.externalButtonEl = this.createControl(controls, 'phone-incoming', 'Log external interruption (-)', () => actions.interrupt('external'));
+
+        this.nextEl = container.createDiv({ cls: 'pomodoro-timer-view-next' });
+        this.taskEl = container.createDiv({ cls: 'pomodoro-panel-task', attr: { 'title': 'Click to pick a task' } });
+        this.taskEl.onclick = () => actions.pickTask();
+        this.categoryEl = container.createDiv({ cls: 'pomodoro-panel-category', attr: { 'title': 'Click to pick a category' } });
+        this.categoryEl.onclick = () => actions.pickCategory();
+        this.scheduleEl = container.createDiv({ cls: 'pomodoro-panel-schedule' });
+
+        this.update(this.plugin.getDisplayState());
+    }
+
+    update(state: TimerDisplayState) {
+        if (!this.circleEl) return;
+
+        setRingProgress(this.circleEl, state);
+        this.ringEl.toggleClass('session-complete', state.isSessionComplete);
+        this.timeEl.setText(state.timeText);
+        this.timeEl.toggleClass('is-overtime', state.isOvertime);
+
+        const modeClass = state.mode === TimerState.Work ? 'work-mode' : 'break-mode';
+        this.modeEl.removeClass('work-mode', 'break-mode', 'mode-enabled', 'mode-disabled');
+        this.modeEl.addClass(modeClass, state.canSwitchMode ? 'mode-enabled' : 'mode-disabled');
+        this.modeEl.setText(state.modeText);
+        applyModeColor(this.modeEl, state);
+
+        setIcon(this.toggleButtonEl, state.isRunning ? 'pause' : 'play');
+        this.toggleButtonEl.setAttribute('aria-label', state.isRunning ? 'Pause' : 'Start');
+        this.extendButtonEl.setAttribute('aria-label', `Add ${state.adjustMinutes} minutes`);
+        this.shortenButtonEl.setAttribute('aria-label', `Subtract ${state.adjustMinutes} minutes`);
+        updateInterruptionButtons(this.internalButtonEl, this.externalButtonEl, state);
+
+        renderCycleDots(this.dotsEl, state);
+        const goalText = getGoalText(state);
+        this.nextEl.setText(`Up next: ${state.nextModeText}${goalText ? ` · ${goalText}` : ''}`);
+        this.taskEl.setText(state.taskLabel ?? 'No linked task');
+        this.categoryEl.setText(state.categoryLabel ?? 'No category');
+        this.scheduleEl.setText(state.upcomingBlocks.join('\n'));
+        this.scheduleEl.toggleClass('is-hidden', state.upcomingBlocks.length === 0);
+    }
+
+    private createControl(parent: HTMLElement, icon: string, label: string, onClick: () => void): HTMLButtonElement {
+        const button = parent.createEl('button', { cls: 'pomodoro-timer-view-button', attr: { 'aria-label': label } });
+        setIcon(button, icon);
+        button.onclick = onClick;
+        return button;
+    }
+}
@@ -0,0 +1,40 @@
+// Stand-ins for the parts of the Obsidian API the tested modules load.
+// Only pure functions are tested, so the classes just need to exist.
+import * as moment from 'moment';
+
+export { moment };
+
+export class App {}
+
+export class TFile {
+    path = '';
+    extension = 'md';
+}
+
+export class Modal {
+    app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+}
+
+export class SuggestModal<T> extends Modal {
+    setPlaceholder(placeholder: string) {}
+
+    getSuggestions(query: string): T[] {
+        return [];
+    }
+}
+
+export class FuzzySuggestModal<T> extends SuggestModal<T> {}
+
+export class Setting {}
+
+export function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+export function getAllTags(): string[] {
+    return [];
+}
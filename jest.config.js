@@ -0,0 +1,19 @@
+/** @type {import('jest').Config} */
+module.exports = {
+	testEnvironment: 'node',
+	roots: ['<rootDir>/tests'],
+	transform: {
+		'^.+\\.ts$': ['ts-jest', {
+			tsconfig: {
+				module: 'commonjs',
+				target: 'ES2019',
+				isolatedModules: true,
+				strictNullChecks: true
+			}
+		}]
+	},
+	// The obsidian package only ships types; the app provides it at runtime
+	moduleNameMapper: {
+		'^obsidian$': '<rootDir>/__mocks__/obsidian.ts'
+	}
+};
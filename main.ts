@@ -1,33 +1,111 @@
-import { App, Plugin, PluginSettingTab, Setting, Notice } from 'obsidian';
-import { PomoTimer, TimerState, PomodoroSettings, DEFAULT_SETTINGS } from './PomoTimer';
+import { App, MarkdownView, ObsidianProtocolData, Plugin, PluginSettingTab, Setting, Notice, TFile, WorkspaceLeaf, WorkspaceParent, moment, normalizePath } from 'obsidian';
+import { PomoTimer, TimerState, PomodoroSettings, DEFAULT_SETTINGS, PersistedSession, PomodianData } from './PomoTimer';
+import { SessionLogFormat, SessionLogWriter, SessionOutcome, SessionRecord, SessionTracker } from './SessionLog';
+import { StatsView, VIEW_TYPE_STATS } from './StatsView';
+import { StatusBarTimer } from './StatusBar';
+import { HeaderButton } from './HeaderButton';
+import { TimerActions, TimerDisplayState, getGoalText } from './TimerDisplay';
+import { TimerView, VIEW_TYPE_TIMER } from './TimerView';
+import { STATS_BLOCK_LANGUAGE, StatsBlock, TIMER_BLOCK_LANGUAGE, TimerBlock, parseBlockOptions } from './CodeBlock';
+import { FocusGuard, FocusMode } from './FocusMode';
+import { JsonFileSuggestModal, SETTINGS_VERSION, createSettingsExport, migrateSettings, parseSettingsExport, validateSettings } from './SettingsSchema';
+import { QuickStartModal, QuickStartOption } from './QuickStart';
+import { PROTOCOL_ACTION, PROTOCOL_ACTIONS, ProtocolRequest, parseProtocolRequest } from './Protocol';
+import { IdleChoice, IdleDetector, IdleReturnModal } from './IdleDetector';
+import { CategorySuggestModal, ReportRange, ReportRangeModal, buildCategoryReport, findCategory, getNoteCategory } from './Categories';
+import { MISSED_GRACE_MINUTES, ScheduleBlock, ScheduleBlockModal, ScheduleRun, ScheduleSource, findOverlaps, formatBlock, formatBlockTime, getBlockKey, getNextScheduledStep, parseSchedule } from './Schedule';
+import { INTERRUPTION_MARKS, InterruptionKind, InterruptionNoteModal, appendToInbox, formatInterruptions } from './Interruptions';
+import { CueAlert, CueTracker, CueType, SessionCue, getCueText } from './Cues';
+import { BreakPrompt, BreakPromptStyle, BreakStrictness, loadBreakSuggestions } from './BreakPrompt';
+import { DailyNoteSource, DailyNoteWriter, insertUnderHeading, renderTemplate } from './DailyNote';
+import { Reflection, ReflectionModal, ReflectionTarget, formatReflection } from './Reflection';
+import { GoalProgress, computeDaySummary, computeGoalProgress, getDayKey, getStatsDate, setDayStartHour } from './Stats';
+import { POMODIAN_EVENTS, PomodianApi, PomodianSnapshot } from './API';
+import { AmbientSound, BUILT_IN_CHIMES, SoundChoice, SoundEngine, SoundEvent } from './SoundEngine';
+import { CLASSIC_PROFILE_ID, DEFAULT_MODE_LABELS, ProfileSuggestModal, TimerProfile, TimerSegment, findSegmentIndex, getActiveProfile, getAllProfiles } from './Profiles';
+import { TaskCounterStyle, TaskLink, TaskSuggestModal, findOpenTasks, getTaskLabel, recordPomodoroOnTask } from './TaskLink';
 
 export default class PomodoroPlugin extends Plugin {
     settings: PomodoroSettings;
+    api: PomodianApi;
     private timer: PomoTimer;
     private currentMode: TimerState = TimerState.Work;
     private completedPomodoros: number = 0;
     private nextMode: TimerState = TimerState.ShortBreak;
+    private segmentIndex = 0;
+    private nextSegmentIndex = 1;
     private isSessionComplete: boolean = false;
+    private storedSession: PersistedSession | null = null;
+    private history: SessionRecord[] = [];
+    private sessionTracker = new SessionTracker();
+    private sessionLogWriter: SessionLogWriter;
+    private linkedTask: TaskLink | null = null;
+    // Chosen for upcoming focus sessions; null falls back to the note's category
+    private category: string | null = null;
+    private soundEngine: SoundEngine;
+    private dailyNoteWriter: DailyNoteWriter;
+    private focusMode: FocusMode;
+    private breakPrompt: BreakPrompt;
+    private breakPostponed = false;
+    private breakPromptClosed = false;
+    private breakPostponeTimeout: number | null = null;
+    private idleDetector = new IdleDetector();
+    // Set while a focus session is paused for inactivity
+    private idlePause: { since: number; pausedAt: number } | null = null;
+    private idleModal: IdleReturnModal | null = null;
+    private goalProgress: GoalProgress | null = null;
+    private goalProgressDay = '';
+    private timerBlocks = new Set<TimerBlock>();
+    private statsBlocks = new Set<StatsBlock>();
+    private cueTracker = new CueTracker();
+    // A focus session that ran out but keeps counting until acknowledged
+    private overtime: { since: number; record: SessionRecord | null } | null = null;
+    private overtimeInterval: number | null = null;
+    private finishingEarly = false;
+    // Today's blocks from the planning note
+    private scheduleBlocks: ScheduleBlock[] = [];
+    private scheduleDay = '';
+    private schedulePath: string | null = null;
+    private scheduleRun: ScheduleRun | null = null;
+    private scheduleHandled = new Set<string>();
+    private scheduleModal: ScheduleBlockModal | null = null;
+    private scheduleOverlapWarning = '';
 
     // UI Elements
-    private containerEl: HTMLDivElement | null = null;
-    private controlPanelEl: HTMLDivElement | null = null;
-    private pieCircleEl: SVGCircleElement | null = null;
-    private panelTimeEl: HTMLButtonElement | null = null;
-    private panelModeEl: HTMLDivElement | null = null;
-    private isPanelPinned = false;
-    private hideTimeout: number | null = null;
+    // One header button per window, in that window's most recent leaf
+    private headerButtons = new Map<Window, HeaderButton>();
+    private statusBarTimer: StatusBarTimer | null = null;
 
     async onload() {
         await this.loadSettings();
+        this.sessionLogWriter = new SessionLogWriter(this.app);
+        this.soundEngine = new SoundEngine(this.app, this.settings);
+        this.dailyNoteWriter = new DailyNoteWriter(this.app, this.settings);
+        this.focusMode = new FocusMode(this.app, this.settings);
+        this.breakPrompt = new BreakPrompt({
+            skip: () => this.handleSkipClick(),
+            postpone: () => this.postponeBreak(),
+            close: () => this.closeBreakPrompt()
+        });
         this.timer = new PomoTimer(
             this.settings,
-            (remaining, total) => this.updateUI(remaining, total),
-            (state) => this.onTimerCompletion(state),
+            (remaining, total) => this.onTimerTick(remaining, total),
+            (state) => this.onTimerStateChange(state),
             () => this.onTimerComplete()
         );
 
+        if (this.storedSession) {
+            this.restoreSession(this.storedSession);
+        }
+
+        this.api = this.createApi();
         this.addSettingTab(new PomodoroSettingTab(this.app, this));
+
+        this.registerView(VIEW_TYPE_STATS, (leaf) => new StatsView(leaf, this));
+        this.registerView(VIEW_TYPE_TIMER, (leaf) => new TimerView(leaf, this));
+        this.addRibbonIcon('bar-chart-2', 'Open Pomodian statistics', () => {
+            this.activateStatsView();
+        });
         
         // Register commands for keyboard shortcuts
         this.addCommand({
@@ -50,12 +128,244 @@ export default class PomodoroPlugin extends Plugin {
             id: 'switch-mode',
             name: 'Switch timer mode',
             callback: () => {
-                this.handleCycleModeClick();
+                this.handleCycleModeClick(true);
+            }
+        });
+
+        this.addCommand({
+            id: 'quick-start',
+            name: 'Start focus or break for…',
+            callback: () => {
+                new QuickStartModal(this.app, this.getQuickStartPresets(), (option) => {
+                    this.startMode(option.mode, option.minutes * 60);
+                }).open();
+            }
+        });
+
+        const modeCommands: [string, string, TimerState][] = [
+            ['start-focus', 'Start focus', TimerState.Work],
+            ['start-short-break', 'Start short break', TimerState.ShortBreak],
+            ['start-long-break', 'Start long break', TimerState.LongBreak]
+        ];
+        for (const [id, name, mode] of modeCommands) {
+            this.addCommand({
+                id,
+                name,
+                callback: () => {
+                    this.startMode(mode);
+                }
+            });
+        }
+
+        this.addCommand({
+            id: 'start-focus-on-current-task',
+            name: 'Start focus on the current task',
+            editorCallback: (editor, ctx) => {
+                const file = ctx.file;
+                const line = editor.getCursor().line;
+                const task = file ? findOpenTasks(file, editor.getValue()).find(candidate => candidate.line === line) : undefined;
+                if (!task) {
+                    new Notice('Put the cursor on an open task to focus on it');
+                    return;
+                }
+                this.setLinkedTask(task);
+                this.startMode(TimerState.Work);
+            }
+        });
+
+        this.addCommand({
+            id: 'toggle-control-panel',
+            name: 'Toggle control panel',
+            callback: () => {
+                this.toggleControlPanel();
+            }
+        });
+
+        this.addCommand({
+            id: 'switch-profile',
+            name: 'Switch timer profile',
+            callback: () => {
+                new ProfileSuggestModal(this.app, getAllProfiles(this.settings), (profile) => this.switchProfile(profile)).open();
+            }
+        });
+
+        this.registerMarkdownCodeBlockProcessor(TIMER_BLOCK_LANGUAGE, (source, el, ctx) => {
+            ctx.addChild(new TimerBlock(el, this, parseBlockOptions(source), ctx.sourcePath));
+        });
+        this.registerMarkdownCodeBlockProcessor(STATS_BLOCK_LANGUAGE, (source, el, ctx) => {
+            ctx.addChild(new StatsBlock(el, this, parseBlockOptions(source), ctx.sourcePath));
+        });
+
+        this.addCommand({
+            id: 'export-settings',
+            name: 'Export settings to the vault',
+            callback: () => {
+                this.exportSettings();
+            }
+        });
+
+        this.addCommand({
+            id: 'import-settings',
+            name: 'Import settings from the vault',
+            callback: () => {
+                this.openSettingsImport();
+            }
+        });
+
+        this.addCommand({
+            id: 'open-timer-panel',
+            name: 'Open timer panel',
+            callback: () => {
+                this.activateTimerView();
+            }
+        });
+
+        this.addCommand({
+            id: 'open-statistics',
+            name: 'Open statistics',
+            callback: () => {
+                this.activateStatsView();
+            }
+        });
+
+        this.addCommand({
+            id: 'insert-day-summary',
+            name: "Insert today's focus summary",
+            callback: () => {
+                this.insertDaySummary();
+            }
+        });
+
+        this.addCommand({
+            id: 'insert-category-report',
+            name: 'Insert focus time by category',
+            callback: () => {
+                new ReportRangeModal(this.app, (range) => this.insertCategoryReport(range)).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'set-category',
+            name: 'Set the focus category',
+            callback: () => {
+                this.openCategorySuggester();
+            }
+        });
+
+        this.addCommand({
+            id: 'start-focus-with-category',
+            name: 'Start focus with a category',
+            callback: () => {
+                this.openCategorySuggester(() => this.startMode(TimerState.Work));
+            }
+        });
+
+        this.addCommand({
+            id: 'link-task',
+            name: 'Link a task to the focus session',
+            callback: () => {
+                this.openTaskSuggester();
+            }
+        });
+
+        this.addCommand({
+            id: 'unlink-task',
+            name: 'Unlink the focus task',
+            checkCallback: (checking) => {
+                if (!this.linkedTask) return false;
+                if (!checking) {
+                    this.setLinkedTask(null);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'log-internal-interruption',
+            name: "Log an internal interruption (')",
+            callback: () => {
+                this.logInterruption('internal');
+            }
+        });
+
+        this.addCommand({
+            id: 'log-external-interruption',
+            name: 'Log an external interruption (-)',
+            callback: () => {
+                this.logInterruption('external');
+            }
+        });
+
+        this.addCommand({
+            id: 'skip-to-next-mode',
+            name: 'Skip to next mode',
+            callback: () => {
+                this.handleSkipClick();
+            }
+        });
+
+        this.addCommand({
+            id: 'add-minutes',
+            name: 'Add minutes to the current session',
+            callback: () => {
+                this.handleAddMinutes(this.settings.adjustMinutes);
+            }
+        });
+
+        this.addCommand({
+            id: 'subtract-minutes',
+            name: 'Subtract minutes from the current session',
+            callback: () => {
+                this.handleAddMinutes(-this.settings.adjustMinutes);
+            }
+        });
+
+        this.addCommand({
+            id: 'finish-now',
+            name: 'Finish the current session now',
+            callback: () => {
+                this.handleFinishNow();
             }
         });
 
-        this.registerEvent(this.app.workspace.on('active-leaf-change', () => this.refreshHeaderButton()));
-        this.app.workspace.onLayoutReady(() => this.refreshHeaderButton());
+        this.registerObsidianProtocolHandler(PROTOCOL_ACTION, (params) => this.handleProtocol(params));
+        for (const action of PROTOCOL_ACTIONS) {
+            this.registerObsidianProtocolHandler(`${PROTOCOL_ACTION}/${action}`, (params) => this.handleProtocol(params));
+        }
+
+        this.refreshStatusBar();
+
+        this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => this.refreshHeaderButton(leaf)));
+        this.registerEvent(this.app.workspace.on('layout-change', () => this.pruneHeaderButtons()));
+        this.registerEvent(this.app.workspace.on('window-open', (_, win) => {
+            this.registerActivityEvents(win.document);
+            this.refreshHeaderButtons();
+        }));
+        this.registerEvent(this.app.workspace.on('window-close', (_, win) => this.removeHeaderButton(win)));
+        this.registerEvent(this.app.workspace.on('file-open', (file) => this.focusMode.handleFileOpen(file)));
+        this.registerEvent(this.app.workspace.on('editor-change', () => {
+            this.idleDetector.recordEdit();
+            this.onUserActivity();
+        }));
+        this.registerActivityEvents(document);
+        this.registerInterval(window.setInterval(() => this.checkActivity(), 10000));
+        this.registerInterval(window.setInterval(() => this.checkSchedule(), 15000));
+        // Re-read the schedule when its note is edited or created
+        this.registerEvent(this.app.vault.on('modify', (file) => {
+            if (file.path === this.schedulePath) this.loadSchedule();
+        }));
+        this.registerEvent(this.app.vault.on('create', (file) => {
+            if (file.path === this.schedulePath) this.loadSchedule();
+        }));
+        this.app.workspace.onLayoutReady(async () => {
+            this.refreshHeaderButtons();
+            // A restored session that is still running picks these back up
+            this.updateFocusMode();
+            this.updateBreakPrompt();
+            this.updateAmbientSound();
+            await this.loadSchedule();
+            this.checkSchedule();
+        });
 
         // Request notification permission on startup
         if ('Notification' in window && Notification.permission === 'default') {
@@ -64,530 +374,2777 @@ export default class PomodoroPlugin extends Plugin {
     }
 
     onunload() {
-        // Clear any pending timeouts
-        if (this.hideTimeout !== null) {
-            clearTimeout(this.hideTimeout);
-            this.hideTimeout = null;
-        }
-        
-        this.removeHeaderButton();
-        this.timer.stop();
+        this.focusMode.exit();
+        this.breakPrompt.hide();
+        this.clearBreakPostpone();
+        this.removeHeaderButtons();
+        this.soundEngine.dispose();
+        this.statusBarTimer?.remove();
+        this.statusBarTimer = null;
+        // Keep the persisted session intact so it resumes on the next load
+        this.timer.dispose();
     }
 
     async loadSettings() { 
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData()); 
+        const data = await this.loadData();
+        // Earlier versions stored the settings object at the top level
+        const stored: PomodianData = data && 'settings' in data 
+            ? data 
+            : { settings: data, session: null, history: [] };
+        const { settings, problems } = validateSettings(migrateSettings(stored.settings, stored.version ?? 0));
+        if (problems.length > 0) {
+            console.warn('Pomodian: replaced invalid settings:', problems);
+        }
+        this.settings = settings;
+        this.storedSession = stored.session ?? null;
+        this.history = stored.history ?? [];
+        setDayStartHour(this.settings.dayStartHour);
     }
     
     async saveSettings() { 
-        await this.saveData(this.settings); 
+        await this.savePluginData(); 
         this.timer.updateSettings(this.settings); 
+        this.soundEngine.updateSettings(this.settings);
+        this.dailyNoteWriter.updateSettings(this.settings);
+        this.focusMode.updateSettings(this.settings);
+        this.updateFocusMode();
+        setDayStartHour(this.settings.dayStartHour);
+        this.goalProgress = null;
+        this.updateAmbientSound();
+        if (this.timer.getState() === TimerState.Idle && !this.isSessionComplete) {
+            // Profile edits may have shortened or reordered the sequence
+            this.setSegment(this.segmentIndex);
+        }
+        this.refreshStatusBar();
+        this.refreshHeaderButtons();
         this.updateUI(0, 0); 
+        this.loadSchedule();
     }
 
-    private refreshHeaderButton() {
-        this.removeHeaderButton();
-        setTimeout(() => {
-            const activeLeaf = this.app.workspace.activeLeaf;
-            if (!activeLeaf) return;
-            const actionsContainer = activeLeaf.view.containerEl.querySelector('.view-actions');
-            if (actionsContainer && !actionsContainer.querySelector('.pomodoro-container')) {
-                this.createHeaderButton(actionsContainer);
-                this.updateUI(0, 0);
+    async exportSettings() {
+        const path = normalizePath(this.settings.settingsFilePath);
+        const json = createSettingsExport(this.settings);
+        try {
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            if (existing instanceof TFile) {
+                await this.app.vault.modify(existing, json);
+            } else {
+                const folder = path.split('/').slice(0, -1).join('/');
+                if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+                    await this.app.vault.createFolder(folder);
+                }
+                await this.app.vault.create(path, json);
             }
-        }, 0);
+            new Notice(`Exported Pomodian settings to ${path}`);
+        } catch (error) {
+            console.warn('Could not export settings:', error);
+            new Notice('Pomodian: could not export the settings');
+        }
     }
 
-    private createHeaderButton(parent: Element) {
-        this.containerEl = parent.createEl('div', { cls: 'pomodoro-container' });
-
-        // Event Listeners for Hover and Click - improved interaction
-        this.containerEl.addEventListener('mouseenter', this.showPanel);
-        this.containerEl.addEventListener('mouseleave', this.hidePanel);
-        document.addEventListener('click', this.handleDocumentClick, true);
-
-        const pieButton = this.containerEl.createEl('button', { cls: 'pomodoro-pie-button' });
-        pieButton.setAttribute('aria-label', 'Pomodoro timer');
-        pieButton.onclick = (event) => {
-            event.stopPropagation();
-            if (this.isSessionComplete) {
-                this.acknowledgeSessionComplete();
+    /**
+     * Replaces the settings with those from an exported file. Invalid values
+     * are replaced by defaults rather than rejecting the whole file.
+     */
+    async importSettings(file: TFile) {
+        // Imported settings bring their own profiles
+        if (!this.canSwitchProfile('import settings')) return;
+        try {
+            const { settings, problems } = parseSettingsExport(await this.app.vault.read(file));
+            this.settings = settings;
+            await this.saveSettings();
+            if (problems.length > 0) {
+                console.warn('Pomodian: replaced invalid imported settings:', problems);
+                new Notice(`Imported settings from ${file.path}; ${problems.length} invalid values were reset to defaults`);
             } else {
-                this.isPanelPinned = !this.isPanelPinned;
+                new Notice(`Imported settings from ${file.path}`);
             }
-        };
-        
-        // SVG Creation
-        const svgNS = 'http://www.w3.org/2000/svg';
-        const svg = document.createElementNS(svgNS, 'svg');
-        svg.setAttribute('class', 'pomodoro-pie-chart');
-        svg.setAttribute('viewBox', '0 0 20 20');
-
-        const track = document.createElementNS(svgNS, 'circle');
-        track.setAttribute('class', 'progress-ring__track');
-        track.setAttribute('r', '8'); 
-        track.setAttribute('cx', '10'); 
-        track.setAttribute('cy', '10');
-        track.setAttribute('fill', 'transparent'); 
-        track.setAttribute('stroke-width', '3');
-
-        this.pieCircleEl = document.createElementNS(svgNS, 'circle');
-        this.pieCircleEl.setAttribute('class', 'progress-ring__circle');
-        this.pieCircleEl.setAttribute('r', '8'); 
-        this.pieCircleEl.setAttribute('cx', '10'); 
-        this.pieCircleEl.setAttribute('cy', '10');
-        this.pieCircleEl.setAttribute('fill', 'transparent'); 
-        this.pieCircleEl.setAttribute('stroke-width', '3');
-        
-        svg.append(track, this.pieCircleEl);
-        pieButton.appendChild(svg);
-        parent.prepend(this.containerEl);
-        
-        this.createControlPanel();
+        } catch (error) {
+            console.warn('Could not import settings:', error);
+            new Notice(`Pomodian: could not import ${file.path}. ${error instanceof Error ? error.message : ''}`);
+        }
     }
 
-    private createControlPanel() {
-        if (!this.containerEl) return;
-        this.controlPanelEl = this.containerEl.createEl('div', { cls: 'pomodoro-control-panel' });
-        this.panelModeEl = this.controlPanelEl.createEl('div', { 
-            cls: 'pomodoro-panel-mode', 
-            attr: { 
-                'title': 'Click to switch mode (only when timer is reset)',
-                'role': 'button',
-                'tabindex': '0'
-            } 
-        });
-        this.panelModeEl.onclick = () => this.handleCycleModeClick();
-        
-        this.panelTimeEl = this.controlPanelEl.createEl('button', { 
-            cls: 'pomodoro-panel-time', 
-            attr: { 'title': 'Left click: Play/Pause | Right click: Reset' } 
-        });
-        this.panelTimeEl.onclick = () => this.handlePauseResumeClick();
-        this.panelTimeEl.oncontextmenu = (e) => { 
-            e.preventDefault(); 
-            this.handleResetClick(); 
-        };
+    openSettingsImport() {
+        new JsonFileSuggestModal(this.app, (file) => this.importSettings(file)).open();
     }
 
-    private removeHeaderButton() {
-        document.removeEventListener('click', this.handleDocumentClick, true);
-        
-        // Clear any pending hide timeout
-        if (this.hideTimeout !== null) {
-            clearTimeout(this.hideTimeout);
-            this.hideTimeout = null;
-        }
-        
-        this.containerEl?.remove();
-        this.containerEl = this.controlPanelEl = this.pieCircleEl = this.panelTimeEl = this.panelModeEl = null;
-        this.isPanelPinned = false;
+    /**
+     * Restores the default settings and sample profiles. History and the
+     * session in progress are kept.
+     */
+    async restoreDefaultSettings() {
+        if (!this.canSwitchProfile('restore the defaults')) return;
+        this.settings = validateSettings(migrateSettings({}, 0)).settings;
+        await this.saveSettings();
+        new Notice('Pomodian settings restored to defaults');
     }
 
-    private showPanel = () => {
-        // Clear any pending hide timeout when showing panel
-        if (this.hideTimeout !== null) {
-            clearTimeout(this.hideTimeout);
-            this.hideTimeout = null;
+    getHistory(): SessionRecord[] {
+        return this.history;
+    }
+
+    private async activateStatsView() {
+        const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_STATS);
+        if (existing.length > 0) {
+            this.app.workspace.revealLeaf(existing[0]);
+            return;
         }
-        this.controlPanelEl?.addClass('is-panel-visible');
-    };
-    
-    private hidePanel = () => { 
-        if (!this.isPanelPinned) {
-            // Add a 300ms grace period before hiding
-            this.hideTimeout = window.setTimeout(() => {
-                this.controlPanelEl?.removeClass('is-panel-visible');
-                this.hideTimeout = null;
-            }, 300);
+
+        const leaf = this.app.workspace.getLeaf(true);
+        await leaf.setViewState({ type: VIEW_TYPE_STATS, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    private async activateTimerView() {
+        const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_TIMER);
+        if (existing.length > 0) {
+            this.app.workspace.revealLeaf(existing[0]);
+            return;
         }
-    };
-    
-    private handleDocumentClick = (event: MouseEvent) => {
-        if (this.containerEl && !this.containerEl.contains(event.target as Node)) {
-            // Clicked outside the container
-            if (this.isPanelPinned) {
-                this.isPanelPinned = false;
-                // Clear any grace period and hide immediately when clicking outside
-                if (this.hideTimeout !== null) {
-                    clearTimeout(this.hideTimeout);
-                    this.hideTimeout = null;
-                }
-                this.controlPanelEl?.removeClass('is-panel-visible');
+
+        const leaf = this.app.workspace.getRightLeaf(false);
+        if (!leaf) return;
+        await leaf.setViewState({ type: VIEW_TYPE_TIMER, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    private refreshStatsViews() {
+        for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_STATS)) {
+            if (leaf.view instanceof StatsView) {
+                leaf.view.refresh();
             }
         }
-    };
+        for (const block of this.statsBlocks) {
+            block.refresh();
+        }
+    }
 
-    private updateUI(remainingTime: number, totalTime: number) {
-        if (!this.pieCircleEl || !this.panelTimeEl || !this.panelModeEl) return;
+    addTimerBlock(block: TimerBlock) {
+        this.timerBlocks.add(block);
+    }
 
-        const timerState = this.timer.getState();
-        
-        // Remove all mode classes first
-        this.pieCircleEl.removeClass('work-mode', 'break-mode');
-        this.panelModeEl.removeClass('work-mode', 'break-mode', 'mode-enabled', 'mode-disabled');
-        this.pieCircleEl.removeClass('progress-complete', 'progress-idle');
-
-        // Add appropriate mode class
-        const isWorkMode = this.currentMode === TimerState.Work;
-        const modeClass = isWorkMode ? 'work-mode' : 'break-mode';
-        this.pieCircleEl.addClass(modeClass);
-        this.panelModeEl.addClass(modeClass);
-
-        // Update pie chart progress using CSS custom properties
-        const radius = this.pieCircleEl.r.baseVal.value;
-        const circumference = 2 * Math.PI * radius;
-        
-        let progress: number;
-        if (timerState === TimerState.Idle) {
-            progress = 1; // Start with full circle
-            this.pieCircleEl.addClass('progress-idle');
-        } else {
-            // Progress decreases from 1 to 0 (circle empties as time passes)
-            progress = totalTime > 0 ? remainingTime / totalTime : 0;
-            if (progress <= 0) {
-                this.pieCircleEl.addClass('progress-complete');
+    removeTimerBlock(block: TimerBlock) {
+        this.timerBlocks.delete(block);
+    }
+
+    addStatsBlock(block: StatsBlock) {
+        this.statsBlocks.add(block);
+    }
+
+    removeStatsBlock(block: StatsBlock) {
+        this.statsBlocks.delete(block);
+    }
+
+    private async savePluginData() {
+        const data: PomodianData = {
+            version: SETTINGS_VERSION,
+            settings: this.settings,
+            session: this.storedSession,
+            history: this.history
+        };
+        await this.saveData(data);
+    }
+
+    private persistSession() {
+        this.storedSession = {
+            timer: this.timer.getSnapshot(),
+            currentMode: this.currentMode,
+            nextMode: this.nextMode,
+            completedPomodoros: this.completedPomodoros,
+            segmentIndex: this.segmentIndex,
+            nextSegmentIndex: this.nextSegmentIndex,
+            isSessionComplete: this.isSessionComplete,
+            activeRecord: this.sessionTracker.getActive(),
+            linkedTask: this.linkedTask,
+            category: this.category,
+            scheduleRun: this.scheduleRun,
+            scheduleHandled: Array.from(this.scheduleHandled),
+            overtimeSince: this.overtime?.since ?? null
+        };
+        this.savePluginData().catch((error) => {
+            console.warn('Could not save the timer session:', error);
+        });
+    }
+
+    private restoreSession(session: PersistedSession) {
+        this.currentMode = session.currentMode;
+        this.nextMode = session.nextMode;
+        this.completedPomodoros = session.completedPomodoros;
+        const segmentCount = this.getProfile().segments.length;
+        this.segmentIndex = (session.segmentIndex ?? Math.max(0, findSegmentIndex(this.getProfile(), -1, this.currentMode))) % segmentCount;
+        this.nextSegmentIndex = (session.nextSegmentIndex ?? this.segmentIndex + 1) % segmentCount;
+        this.sessionTracker.restore(session.activeRecord ?? null);
+        this.linkedTask = session.linkedTask ?? null;
+        this.category = session.category ?? null;
+        this.scheduleRun = session.scheduleRun ?? null;
+        this.scheduleHandled = new Set(session.scheduleHandled ?? []);
+
+        const expired = this.timer.restore(session.timer);
+        if (expired) {
+            this.onTimerComplete(session.timer.endTime ?? Date.now(), true);
+        } else if (session.isSessionComplete) {
+            this.isSessionComplete = true;
+            if (session.overtimeSince) {
+                // The record is found in the history when the overtime ends
+                this.startOvertime(session.overtimeSince, null);
+            } else {
+                this.scheduleAcknowledge();
             }
         }
+    }
 
-        // Set CSS custom properties for progress calculation
-        this.pieCircleEl.style.setProperty('--progress', progress.toString());
-        this.pieCircleEl.style.setProperty('--circumference', circumference.toString());
-
-        // Add session complete animation
-        if (this.isSessionComplete) {
-            this.containerEl?.addClass('session-complete');
-        } else {
-            this.containerEl?.removeClass('session-complete');
+    private refreshStatusBar() {
+        if (this.settings.showInStatusBar && !this.statusBarTimer) {
+            this.statusBarTimer = new StatusBarTimer(this.addStatusBarItem(), this.getTimerActions());
+        } else if (!this.settings.showInStatusBar && this.statusBarTimer) {
+            this.statusBarTimer.remove();
+            this.statusBarTimer = null;
         }
+    }
 
-        // Update time display
-        const minutes = Math.floor(remainingTime / 60).toString().padStart(2, '0');
-        const seconds = (remainingTime % 60).toString().padStart(2, '0');
-        
-        if (timerState === TimerState.Idle) {
-            this.panelTimeEl.setText(this.getIdleTimeText());
-        } else {
-            this.panelTimeEl.setText(`${minutes}:${seconds}`);
+    /**
+     * Moves the header button of the leaf's window into that leaf's header.
+     */
+    private refreshHeaderButton(leaf: WorkspaceLeaf | null) {
+        if (!this.settings.showHeaderButton) {
+            this.removeHeaderButtons();
+            return;
         }
+        if (!leaf) return;
 
-        // Update mode display
-        this.panelModeEl.setText(this.getModeText());
+        // Wait for the view header to be rendered
+        setTimeout(() => {
+            const viewEl = leaf.view.containerEl;
+            const actionsContainer = viewEl.querySelector('.view-actions');
+            if (!viewEl.isConnected || !actionsContainer || actionsContainer.querySelector('.pomodoro-container')) return;
 
-        // Update mode display state based on whether it can be changed
-        if (timerState === TimerState.Idle && !this.timer.isRunning()) {
-            this.panelModeEl.addClass('mode-enabled');
-        } else {
-            this.panelModeEl.addClass('mode-disabled');
-        }
+            this.removeHeaderButton(viewEl.win);
+            const button = this.addChild(new HeaderButton(actionsContainer, this.getTimerActions()));
+            this.headerButtons.set(viewEl.win, button);
+            button.update(this.getDisplayState());
+        }, 0);
     }
-    
-    private getIdleTimeText = (): string => {
-        const time = this.currentMode === TimerState.Work 
-            ? this.settings.workTime 
-            : this.currentMode === TimerState.ShortBreak 
-                ? this.settings.shortBreakTime 
-                : this.settings.longBreakTime;
-        return `${time}:00`;
-    };
 
-    private getModeText = (): string => {
-        return this.currentMode === TimerState.Work 
-            ? 'Focus' 
-            : this.currentMode === TimerState.ShortBreak 
-                ? 'Short break' 
-                : 'Long break';
-    };
+    /**
+     * Puts a header button in every window, e.g. after loading or when
+     * the setting is turned on.
+     */
+    private refreshHeaderButtons() {
+        this.removeHeaderButtons();
+        if (!this.settings.showHeaderButton) return;
 
-    private handlePauseResumeClick = () => {
-        if (this.isSessionComplete) {
-            this.acknowledgeSessionComplete();
-            return;
+        const containers = new Set<WorkspaceParent>();
+        this.app.workspace.iterateRootLeaves(leaf => {
+            containers.add(leaf.getContainer());
+        });
+        for (const container of containers) {
+            this.refreshHeaderButton(this.app.workspace.getMostRecentLeaf(container));
         }
+    }
 
-        if (this.timer.isRunning() || this.timer.getState() === TimerState.Paused) {
-            this.timer.getState() === TimerState.Paused ? this.timer.resume() : this.timer.pause();
-        } else {
-            this.timer.start(this.currentMode);
+    private removeHeaderButton(win: Window) {
+        const button = this.headerButtons.get(win);
+        if (button) {
+            this.removeChild(button);
+            this.headerButtons.delete(win);
         }
-    };
+    }
 
-    private handleResetClick = () => {
-        this.timer.reset();
-        this.isSessionComplete = false;
-        this.updateUI(0, 0);
-    };
+    private removeHeaderButtons() {
+        for (const win of Array.from(this.headerButtons.keys())) {
+            this.removeHeaderButton(win);
+        }
+    }
 
-    private handleCycleModeClick = () => {
-        // Only allow mode change when timer is idle and reset
-        if (this.timer.getState() !== TimerState.Idle || this.timer.isRunning()) {
-            new Notice('Reset the timer to switch modes');
-            return;
+    /**
+     * Drops buttons whose leaf was closed or moved to another window.
+     */
+    private pruneHeaderButtons() {
+        for (const [win, button] of Array.from(this.headerButtons.entries())) {
+            if (!button.isAttached()) {
+                this.removeHeaderButton(win);
+            }
         }
+    }
 
-        if (this.isSessionComplete) {
-            this.acknowledgeSessionComplete();
+    private registerActivityEvents(doc: Document) {
+        for (const eventName of ['keydown', 'mousedown', 'mousemove', 'wheel', 'touchstart'] as const) {
+            this.registerDomEvent(doc, eventName, () => this.onUserActivity(), { passive: true });
+        }
+    }
+
+    getSnapshot(): PomodianSnapshot {
+        const display = this.getDisplayState();
+        return {
+            state: TimerState[display.timerState] as keyof typeof TimerState,
+            mode: TimerState[this.currentMode] as keyof typeof TimerState,
+            modeLabel: display.modeText,
+            remaining: this.timer.getRemainingTime(),
+            total: this.timer.getTotalTime(),
+            isRunning: display.isRunning,
+            isSessionComplete: this.isSessionComplete,
+            completedPomodoros: this.completedPomodoros,
+            cycle: {
+                position: display.cyclePosition,
+                length: display.cycleLength
+            },
+            profileId: this.getProfile().id,
+            linkedTask: display.taskLabel,
+            category: display.categoryLabel
+        };
+    }
+
+    private createApi(): PomodianApi {
+        return {
+            start: (mode) => this.startSession(mode),
+            pause: () => {
+                if (!this.timer.isRunning()) return false;
+                this.timer.pause();
+                return true;
+            },
+            resume: () => {
+                if (this.timer.getState() !== TimerState.Paused) return false;
+                this.timer.resume();
+                return true;
+            },
+            reset: () => this.handleResetClick(),
+            skip: () => this.handleSkipClick(),
+            getState: () => this.timer.getState(),
+            getSnapshot: () => this.getSnapshot()
+        };
+    }
+
+    /**
+     * Runs an obsidian://pomodian action from a launcher, macro pad or script.
+     */
+    private async handleProtocol(params: ObsidianProtocolData) {
+        let request: ProtocolRequest;
+        try {
+            request = parseProtocolRequest(params);
+        } catch (error) {
+            new Notice(`Pomodian: ${error instanceof Error ? error.message : 'invalid link'}`);
             return;
         }
 
-        switch (this.currentMode) {
-            case TimerState.Work: 
-                this.currentMode = TimerState.ShortBreak; 
+        switch (request.action) {
+            case 'start':
+                await this.startFromProtocol(request);
+                break;
+            case 'pause':
+                if (!this.api.pause()) new Notice('Pomodian: no session is running');
+                break;
+            case 'resume':
+                if (!this.api.resume()) new Notice('Pomodian: the timer is not paused');
+                break;
+            case 'reset':
+                this.handleResetClick();
                 break;
-            case TimerState.ShortBreak: 
-                this.currentMode = TimerState.LongBreak; 
+            case 'skip':
+                this.handleSkipClick();
                 break;
-            case TimerState.LongBreak: 
-                this.currentMode = TimerState.Work; 
+            case 'switch-mode':
+                this.switchModeTo(request.mode);
+                break;
+            case 'status':
+                this.showStatus(request.copy);
                 break;
         }
-        new Notice(`Switched to ${this.getModeText()} mode`);
-        this.updateUI(0, 0);
-    };
+    }
 
-    private onTimerComplete() {
-        this.isSessionComplete = true;
-        
-        // Play sound notification
-        if (this.settings.playSound) {
-            this.playNotificationSound();
+    /**
+     * With a mode or minutes, starts that session right away like the quick
+     * start commands; otherwise behaves like the play button.
+     */
+    private async startFromProtocol(request: ProtocolRequest) {
+        if (request.note) {
+            const file = this.app.metadataCache.getFirstLinkpathDest(request.note, '')
+                ?? this.app.vault.getAbstractFileByPath(normalizePath(request.note));
+            if (!(file instanceof TFile)) {
+                new Notice(`Pomodian: could not find the note "${request.note}"`);
+                return;
+            }
+            // Focus sessions are bound to the active note, so open it first
+            await this.app.workspace.getLeaf(false).openFile(file);
+        }
+        if (request.category) {
+            this.setCategory(request.category);
         }
 
-        // Show desktop notification
-        if (this.settings.showDesktopNotification) {
-            this.showDesktopNotification();
+        if (request.mode !== null || request.minutes !== null) {
+            this.startMode(request.mode ?? TimerState.Work, request.minutes !== null ? request.minutes * 60 : undefined);
+        } else if (!this.startSession()) {
+            new Notice('Pomodian: a session is already running');
+        }
+    }
+
+    /**
+     * Switches to the given mode while the timer is reset, or cycles to the
+     * next one like clicking the mode name.
+     */
+    private switchModeTo(mode: TimerState | null) {
+        if (mode === null) {
+            this.handleCycleModeClick();
+            return;
+        }
+        if (this.timer.getState() !== TimerState.Idle) {
+            new Notice('Reset the timer to switch modes');
+            return;
+        }
+
+        if (this.isSessionComplete) {
+            this.acknowledgeSessionComplete();
+        }
+        const index = findSegmentIndex(this.getProfile(), this.segmentIndex, mode);
+        if (index === -1) {
+            new Notice(`The ${this.getProfile().name} profile has no ${DEFAULT_MODE_LABELS[mode].toLowerCase()}`);
+            return;
+        }
+        this.setSegment(index);
+        new Notice(`Switched to ${this.getModeText()} mode`);
+        this.persistSession();
+        this.updateUI(0, 0);
+    }
+
+    private showStatus(copy: boolean) {
+        const display = this.getDisplayState();
+        const state = display.isSessionComplete ? 'finished'
+            : display.isRunning ? 'running'
+            : display.timerState === TimerState.Paused ? 'paused'
+            : 'reset';
+        const lines = [
+            `${display.modeText} ${display.cyclePosition}/${display.cycleLength} · ${display.timeText} · ${state}`,
+            display.taskLabel,
+            display.categoryLabel,
+            getGoalText(display)
+        ];
+        new Notice(lines.filter(Boolean).join('\n'), 6000);
+
+        // Lets scripts read the status back from the clipboard
+        if (copy) {
+            navigator.clipboard.writeText(JSON.stringify(this.getSnapshot(), null, 2)).catch((error) => {
+                console.warn('Could not copy status:', error);
+                new Notice('Pomodian: could not copy the status');
+            });
+        }
+    }
+
+    /**
+     * Starts a new session, optionally jumping to the next segment of the
+     * given mode first. A paused session is resumed instead.
+     */
+    private startSession(mode?: TimerState): boolean {
+        if (this.isSessionComplete) {
+            this.acknowledgeSessionComplete();
+        }
+
+        const state = this.timer.getState();
+        if (state === TimerState.Paused && mode === undefined) {
+            this.timer.resume();
+            return true;
+        }
+        if (state !== TimerState.Idle) return false;
+
+        if (mode !== undefined && mode !== this.currentMode) {
+            const index = findSegmentIndex(this.getProfile(), this.segmentIndex, mode);
+            if (index === -1) return false;
+            this.setSegment(index);
+        }
+        this.startCurrentSegment();
+        return true;
+    }
+
+    /**
+     * Starts a session of the given mode right away, ending whatever is in
+     * progress. Used by the quick-start prompt and the per-mode commands.
+     */
+    private startMode(mode: TimerState, durationSeconds?: number): boolean {
+        if (!this.getProfile().segments.some(segment => segment.type === mode)) {
+            new Notice(`The ${this.getProfile().name} profile has no ${DEFAULT_MODE_LABELS[mode].toLowerCase()}`);
+            return false;
+        }
+
+        if (this.isSessionComplete) {
+            this.acknowledgeSessionComplete();
+        }
+        if (this.timer.getState() !== TimerState.Idle) {
+            this.recordSession('reset');
+            this.timer.reset();
+        }
+
+        if (mode !== this.currentMode) {
+            this.setSegment(findSegmentIndex(this.getProfile(), this.segmentIndex, mode));
+        }
+        this.timer.start(this.currentMode, durationSeconds ?? Math.round(this.getSegment().minutes * 60));
+        return true;
+    }
+
+    /**
+     * One option per distinct mode and length in the active profile.
+     */
+    private getQuickStartPresets(): QuickStartOption[] {
+        const presets: QuickStartOption[] = [];
+        for (const segment of this.getProfile().segments) {
+            if (!presets.some(preset => preset.mode === segment.type && preset.minutes === segment.minutes)) {
+                presets.push({ mode: segment.type, minutes: segment.minutes, label: this.getSegmentLabel(segment) });
+            }
+        }
+        return presets;
+    }
+
+    /**
+     * Pins the header control panel, or opens and closes the sidebar timer
+     * when the header button is turned off.
+     */
+    private toggleControlPanel() {
+        const headerButton = this.headerButtons.get(activeWindow);
+        if (headerButton) {
+            headerButton.togglePanel();
+            return;
+        }
+
+        const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_TIMER);
+        if (leaves.length > 0) {
+            leaves.forEach(leaf => leaf.detach());
+        } else {
+            this.activateTimerView();
+        }
+    }
+
+    getTimerActions(): TimerActions {
+        return {
+            toggle: () => this.handlePauseResumeClick(),
+            reset: () => this.handleResetClick(),
+            switchMode: () => this.handleCycleModeClick(),
+            skip: () => this.handleSkipClick(),
+            addMinutes: (minutes) => this.handleAddMinutes(minutes),
+            finishNow: () => this.handleFinishNow(),
+            acknowledge: () => this.handleAcknowledge(),
+            pickTask: () => this.openTaskSuggester(),
+            pickCategory: () => this.openCategorySuggester(),
+            interrupt: (kind) => this.logInterruption(kind)
+        };
+    }
+
+    /**
+     * Single source of truth for every timer widget.
+     */
+    getDisplayState(remainingTime = this.timer.getRemainingTime(), totalTime = this.timer.getTotalTime()): TimerDisplayState {
+        const timerState = this.timer.getState();
+        const isIdle = timerState === TimerState.Idle;
+        const segment = this.getSegment();
+
+        // The cycle is the profile's focus segments; a just-finished one counts as done
+        const workIndexes = this.getProfile().segments
+            .map((candidate, index) => candidate.type === TimerState.Work ? index : -1)
+            .filter(index => index >= 0);
+        const completedInCycle = workIndexes
+            .filter(index => index < this.segmentIndex || (index === this.segmentIndex && this.isSessionComplete))
+            .length;
+        const isCurrentFocus = this.currentMode === TimerState.Work && !this.isSessionComplete;
+        const overtimeSeconds = this.overtime ? Math.max(0, Math.floor((Date.now() - this.overtime.since) / 1000)) : null;
+        const category = this.getCategory();
+        const categoryColor = this.settings.categoryColors && this.currentMode === TimerState.Work
+            ? findCategory(this.settings, category)?.color
+            : null;
+
+        return {
+            timerState,
+            mode: this.currentMode,
+            modeText: this.getModeText(),
+            modeColor: overtimeSeconds !== null ? 'var(--color-red)' : categoryColor || segment.color || null,
+            nextModeText: this.getSegmentLabel(this.getSegment(this.getUpcomingSegmentIndex())),
+            timeText: overtimeSeconds !== null ? `+${this.formatTime(overtimeSeconds)}`
+                : isIdle ? this.getIdleTimeText() : this.formatTime(remainingTime),
+            // Progress decreases from 1 to 0 (circle empties as time passes)
+            progress: isIdle ? 1 : totalTime > 0 ? remainingTime / totalTime : 0,
+            isRunning: this.timer.isRunning(),
+            isSessionComplete: this.isSessionComplete,
+            isOvertime: overtimeSeconds !== null,
+            canSwitchMode: isIdle,
+            cyclePosition: isCurrentFocus ? completedInCycle + 1 : Math.max(1, completedInCycle),
+            cycleLength: workIndexes.length,
+            completedInCycle,
+            taskLabel: this.linkedTask ? getTaskLabel(this.linkedTask) : null,
+            categoryLabel: category,
+            upcomingBlocks: this.getUpcomingBlocks(),
+            interruptions: this.getInterruptions(),
+            adjustMinutes: this.settings.adjustMinutes,
+            ...this.getGoalDisplay()
+        };
+    }
+
+    private getInterruptions() {
+        const active = this.sessionTracker.getActive();
+        if (!active || active.mode !== TimerState.Work) return null;
+        return active.interruptions ?? { internal: 0, external: 0 };
+    }
+
+    /**
+     * Marks an interruption of the focus session in progress and, if
+     * enabled, asks for a quick note for the inbox.
+     */
+    private logInterruption(kind: InterruptionKind) {
+        const active = this.sessionTracker.getActive();
+        const counts = active?.mode === TimerState.Work ? this.sessionTracker.interrupt(kind) : null;
+        if (!active || !counts) {
+            new Notice('Interruptions can only be logged during a focus session');
+            return;
+        }
+
+        this.persistSession();
+        this.updateUI(this.timer.getRemainingTime(), this.timer.getTotalTime());
+        const voids = kind === 'external' && this.settings.externalVoidsPomodoro;
+        new Notice(`${kind === 'internal' ? 'Internal' : 'External'} interruption logged (${formatInterruptions(counts)})${voids ? '. This pomodoro will not count.' : ''}`);
+
+        if (this.settings.interruptionNotes) {
+            new InterruptionNoteModal(this.app, kind, (note) => this.writeInterruptionNote(kind, note, active.notePath)).open();
+        }
+    }
+
+    private writeInterruptionNote(kind: InterruptionKind, note: string, notePath: string | null) {
+        const inboxPath = normalizePath(this.settings.interruptionInboxPath);
+        const link = notePath ? ` (${this.getNoteLink(notePath, inboxPath)})` : '';
+        const line = `- [ ] ${moment().format('YYYY-MM-DD HH:mm')} ${INTERRUPTION_MARKS[kind]} ${note}${link}`;
+        appendToInbox(this.app, inboxPath, line).catch((error) => {
+            console.warn('Could not write interruption:', error);
+            new Notice('Pomodian: could not write to the interruptions inbox');
+        });
+    }
+
+    /**
+     * Re-reads today's blocks from the schedule note or the daily note.
+     */
+    private async loadSchedule() {
+        const today = moment();
+        this.scheduleDay = today.format('YYYY-MM-DD');
+        for (const key of Array.from(this.scheduleHandled)) {
+            if (!key.startsWith(this.scheduleDay)) {
+                this.scheduleHandled.delete(key);
+            }
+        }
+
+        this.scheduleBlocks = [];
+        this.schedulePath = null;
+        if (this.settings.scheduleSource !== 'off') {
+            const notePath = this.settings.scheduleNotePath.trim();
+            this.schedulePath = this.settings.scheduleSource === 'daily'
+                ? this.dailyNoteWriter.getDailyNotePath(today)
+                : normalizePath(notePath.endsWith('.md') ? notePath : `${notePath}.md`);
+
+            const file = this.app.vault.getAbstractFileByPath(this.schedulePath);
+            if (file instanceof TFile) {
+                try {
+                    const heading = this.settings.scheduleSource === 'daily' ? this.settings.scheduleHeading : '';
+                    this.scheduleBlocks = parseSchedule(await this.app.vault.cachedRead(file), heading);
+                } catch (error) {
+                    console.warn('Could not read schedule:', error);
+                    new Notice('Pomodian: could not read the schedule');
+                }
+            }
+        }
+
+        // Warn once per change rather than on every save of the note
+        const overlaps = findOverlaps(this.scheduleBlocks)
+            .map(([first, second]) => `"${first.title}" overlaps "${second.title}"`);
+        const warning = overlaps.join('\n');
+        if (warning && warning !== this.scheduleOverlapWarning) {
+            new Notice(`Pomodian schedule: ${warning}. You'll be asked before a block interrupts another.`, 8000);
+        }
+        this.scheduleOverlapWarning = warning;
+        this.updateUI(this.timer.getRemainingTime(), this.timer.getTotalTime());
+    }
+
+    /**
+     * Starts a block when it is due and the timer is free. A block that was
+     * missed, or that would interrupt another session, asks first.
+     */
+    private checkSchedule() {
+        if (this.settings.scheduleSource === 'off') return;
+        if (moment().format('YYYY-MM-DD') !== this.scheduleDay) {
+            this.loadSchedule();
+            return;
+        }
+
+        // Drop a run whose block ended while nothing was running, e.g. overnight
+        if (this.scheduleRun && Date.now() >= this.scheduleRun.endsAt && this.timer.getState() === TimerState.Idle) {
+            this.scheduleRun = null;
+            this.persistSession();
+        }
+        if (this.scheduleModal) return;
+
+        const now = moment();
+        const minutes = now.hours() * 60 + now.minutes();
+        const block = this.scheduleBlocks.find(candidate =>
+            candidate.start <= minutes && minutes < candidate.end && !this.scheduleHandled.has(getBlockKey(this.scheduleDay, candidate)));
+        if (!block) return;
+
+        const isBusy = this.scheduleRun !== null || this.timer.getState() !== TimerState.Idle;
+        const isLate = minutes - block.start > MISSED_GRACE_MINUTES;
+        if (!isBusy && !isLate) {
+            this.startScheduleBlock(block);
+            return;
+        }
+
+        const remaining = block.end - minutes;
+        let message: string;
+        if (this.scheduleRun) {
+            message = `"${block.title}" is scheduled from ${formatBlockTime(block.start)}, but "${this.scheduleRun.title}" is still running. Start "${block.title}" now? The current session will end.`;
+        } else if (isBusy) {
+            message = `"${block.title}" is scheduled from ${formatBlockTime(block.start)}, but a session is running. Start it now? The current session will end.`;
+        } else {
+            message = `"${block.title}" was scheduled for ${formatBlockTime(block.start)}. Start it now for the remaining ${remaining} minutes?`;
+        }
+
+        this.scheduleModal = new ScheduleBlockModal(this.app, message, (start) => {
+            this.scheduleModal = null;
+            if (start) {
+                this.startScheduleBlock(block);
+            } else {
+                this.scheduleHandled.add(getBlockKey(this.scheduleDay, block));
+                this.persistSession();
+            }
+        });
+        this.scheduleModal.open();
+    }
+
+    private startScheduleBlock(block: ScheduleBlock) {
+        const key = getBlockKey(this.scheduleDay, block);
+        this.scheduleHandled.add(key);
+
+        const note = block.link && this.schedulePath
+            ? this.app.metadataCache.getFirstLinkpathDest(block.link, this.schedulePath)
+            : null;
+        if (block.link && !note) {
+            new Notice(`Pomodian: could not find the note "${block.link}" for "${block.title}"`);
+        }
+
+        this.scheduleRun = {
+            key,
+            title: block.title,
+            notePath: note?.path ?? null,
+            endsAt: moment().startOf('day').add(block.end, 'minutes').valueOf()
+        };
+        if (this.continueScheduleRun(null)) {
+            new Notice(`Started "${block.title}" until ${formatBlockTime(block.end)}`);
+        }
+    }
+
+    /**
+     * Starts the block's next focus session or break after `previous`
+     * finished. Returns false when the block is over.
+     */
+    private continueScheduleRun(previous: TimerState | null): boolean {
+        const run = this.scheduleRun;
+        if (!run) return false;
+        // Something else was started by hand in the meantime
+        if (previous !== null && !this.isSessionComplete && this.timer.getState() !== TimerState.Idle) return false;
+
+        const step = getNextScheduledStep(
+            previous,
+            (run.endsAt - Date.now()) / 1000,
+            this.getModeMinutes(TimerState.Work) * 60,
+            this.getModeMinutes(TimerState.ShortBreak) * 60
+        );
+        if (!step) {
+            this.scheduleRun = null;
+            this.persistSession();
+            if (previous !== null) {
+                new Notice(`Finished the "${run.title}" block`);
+            }
+            return false;
+        }
+
+        if (!this.startMode(step.mode, step.seconds)) {
+            this.scheduleRun = null;
+            this.persistSession();
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * The profile's length for a mode, from its first step of that type.
+     */
+    private getModeMinutes(mode: TimerState): number {
+        const profile = this.getProfile();
+        const index = findSegmentIndex(profile, -1, mode);
+        if (index !== -1) return profile.segments[index].minutes;
+        return mode === TimerState.Work ? this.settings.workTime : this.settings.shortBreakTime;
+    }
+
+    /**
+     * Blocks that haven't ended yet today, for the control panel.
+     */
+    private getUpcomingBlocks(): string[] {
+        if (this.scheduleBlocks.length === 0) return [];
+        const now = moment();
+        const minutes = now.hours() * 60 + now.minutes();
+        return this.scheduleBlocks
+            .filter(block => block.end > minutes)
+            .slice(0, 3)
+            .map(block => `${block.start <= minutes ? 'Now · ' : ''}${formatBlock(block)}`);
+    }
+
+    /**
+     * Today's and this week's pomodoros, recounted from the history only when
+     * a session is recorded or the day rolls over.
+     */
+    private getGoalProgress(): GoalProgress {
+        const day = getDayKey(Date.now());
+        if (!this.goalProgress || this.goalProgressDay !== day) {
+            this.goalProgress = computeGoalProgress(this.history);
+            this.goalProgressDay = day;
+        }
+        return this.goalProgress;
+    }
+
+    private getGoalDisplay() {
+        const progress = this.getGoalProgress();
+        return {
+            todayPomodoros: progress.today,
+            dailyGoal: this.settings.dailyGoal,
+            weekPomodoros: progress.week,
+            weeklyGoal: this.settings.weeklyGoal
+        };
+    }
+
+    private celebrateGoals() {
+        const progress = this.getGoalProgress();
+        const reached: string[] = [];
+        if (this.settings.dailyGoal > 0 && progress.today === this.settings.dailyGoal) {
+            reached.push(`Daily goal reached: ${progress.today} pomodoros today!`);
+        }
+        if (this.settings.weeklyGoal > 0 && progress.week === this.settings.weeklyGoal) {
+            reached.push(`Weekly goal reached: ${progress.week} pomodoros this week!`);
+        }
+
+        for (const message of reached) {
+            new Notice(`🎉 ${message}`, 8000);
+            if (this.settings.showDesktopNotification && 'Notification' in window && Notification.permission === 'granted') {
+                new Notification('Pomodian', { body: message, tag: 'pomodoro-goal' });
+            }
+        }
+    }
+
+    private updateUI(remainingTime: number, totalTime: number) {
+        const state = this.getDisplayState(remainingTime, totalTime);
+
+        for (const button of this.headerButtons.values()) {
+            button.update(state);
+        }
+        this.statusBarTimer?.update(state);
+        for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_TIMER)) {
+            if (leaf.view instanceof TimerView) {
+                leaf.view.update(state);
+            }
+        }
+        for (const block of this.timerBlocks) {
+            block.update(state);
+        }
+        this.breakPrompt.update(state);
+    }
+    
+    private formatTime(totalSeconds: number): string {
+        const minutes = Math.floor(totalSeconds / 60).toString().padStart(2, '0');
+        const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+        return `${minutes}:${seconds}`;
+    }
+
+    private getIdleTimeText = (): string => {
+        return this.formatTime(Math.round(this.getSegment().minutes * 60));
+    };
+
+    private getModeText = (): string => {
+        return this.getSegmentLabel(this.getSegment());
+    };
+
+    /**
+     * The label of the profile's first segment of a mode, for sessions that
+     * are no longer the current one.
+     */
+    private getModeLabel(mode: TimerState): string {
+        const segment = this.getProfile().segments.find(candidate => candidate.type === mode);
+        return segment ? this.getSegmentLabel(segment) : DEFAULT_MODE_LABELS[mode];
+    }
+
+    private getSegmentLabel(segment: TimerSegment): string {
+        return segment.label || DEFAULT_MODE_LABELS[segment.type];
+    }
+
+    private getProfile(): TimerProfile {
+        return getActiveProfile(this.settings);
+    }
+
+    private getSegment(index = this.segmentIndex): TimerSegment {
+        const segments = this.getProfile().segments;
+        return segments[index % segments.length];
+    }
+
+    private setSegment(index: number) {
+        this.segmentIndex = index % this.getProfile().segments.length;
+        this.currentMode = this.getSegment().type;
+    }
+
+    private startCurrentSegment() {
+        this.timer.start(this.currentMode, Math.round(this.getSegment().minutes * 60));
+    }
+
+    /**
+     * The segment that follows the current one in the active profile.
+     */
+    private getUpcomingSegmentIndex(): number {
+        if (this.isSessionComplete) {
+            return this.nextSegmentIndex;
+        }
+        return (this.segmentIndex + 1) % this.getProfile().segments.length;
+    }
+
+    /**
+     * Profiles can only change while the timer is reset, since the running
+     * segment belongs to the active profile. Shows a notice naming `action`
+     * when they can't.
+     */
+    canSwitchProfile(action = 'switch profiles'): boolean {
+        if (this.timer.getState() !== TimerState.Idle || this.isSessionComplete) {
+            new Notice(`Reset the timer to ${action}`);
+            return false;
+        }
+        return true;
+    }
+
+    private switchProfile(profile: TimerProfile) {
+        if (!this.canSwitchProfile()) return;
+
+        this.settings.activeProfileId = profile.id;
+        this.setSegment(0);
+        new Notice(`Switched to the ${profile.name} profile`);
+        this.persistSession();
+        this.saveSettings();
+    }
+
+    /**
+     * Starts from idle with an embedded block's profile and task applied.
+     * Anything else behaves like the play/pause button.
+     */
+    startWith(profile: TimerProfile | null, task: TaskLink | null) {
+        if (this.timer.getState() !== TimerState.Idle || this.isSessionComplete) {
+            this.handlePauseResumeClick();
+            return;
+        }
+
+        if (profile && profile.id !== this.settings.activeProfileId) {
+            this.settings.activeProfileId = profile.id;
+            this.setSegment(0);
+            this.saveSettings();
+        }
+        if (task) {
+            this.setLinkedTask(task);
+        }
+        this.startCurrentSegment();
+    }
+
+    private handlePauseResumeClick = () => {
+        if (this.isSessionComplete) {
+            this.handleAcknowledge();
+            return;
+        }
+
+        if (this.timer.isRunning() || this.timer.getState() === TimerState.Paused) {
+            this.timer.getState() === TimerState.Paused ? this.timer.resume() : this.timer.pause();
+        } else if (this.currentMode === TimerState.Work && this.settings.askCategoryOnStart) {
+            this.openCategorySuggester(() => this.startCurrentSegment());
+        } else {
+            this.startCurrentSegment();
+        }
+    };
+
+    private handleResetClick = () => {
+        // Resetting by hand stops a scheduled block too
+        this.scheduleRun = null;
+        this.endOvertime();
+        this.recordSession('reset');
+        this.timer.reset();
+        this.isSessionComplete = false;
+        this.persistSession();
+        this.updateUI(0, 0);
+    };
+
+    private handleSkipClick = () => {
+        if (this.isSessionComplete) {
+            this.acknowledgeSessionComplete();
+            return;
+        }
+
+        const skippedMode = this.currentMode;
+        this.recordSession('skipped');
+        this.timer.skip();
+
+        // Move on without counting the skipped session towards the cycle
+        this.setSegment(this.getUpcomingSegmentIndex());
+        new Notice(`Skipped to ${this.getModeText()}`);
+        if (this.scheduleRun) {
+            this.continueScheduleRun(skippedMode);
+        }
+        this.persistSession();
+        this.updateUI(0, 0);
+    };
+
+    private handleAddMinutes = (minutes: number) => {
+        if (this.timer.getState() === TimerState.Idle) {
+            new Notice('Start a session to change its length');
+            return;
+        }
+
+        // Record before applying: removing all remaining time completes the session
+        // and closes the record. Only time that was actually left counts as removed.
+        this.sessionTracker.adjust(this.timer.getAddableSeconds(minutes * 60));
+        this.timer.addTime(minutes * 60);
+
+        this.persistSession();
+        new Notice(minutes > 0 ? `Added ${minutes} min` : `Removed ${-minutes} min`);
+    };
+
+    private handleFinishNow = () => {
+        // Finishing early is a decision to stop, so it never runs into overtime
+        this.finishingEarly = true;
+        const finished = this.timer.finishNow();
+        this.finishingEarly = false;
+        if (!finished) {
+            new Notice('No session is running');
+        }
+    };
+
+    /**
+     * Clicking the mode label only switches while reset; the command passes
+     * `force` to end the session in progress first.
+     */
+    private handleCycleModeClick = (force = false) => {
+        if (this.timer.getState() !== TimerState.Idle) {
+            if (!force) {
+                new Notice('Reset the timer to switch modes');
+                return;
+            }
+            this.recordSession('reset');
+            this.timer.reset();
+        } else if (this.isSessionComplete) {
+            this.acknowledgeSessionComplete();
+            if (!force) return;
+        }
+
+        // Cycle Focus → Short break → Long break, skipping types the profile lacks
+        const rotation = [TimerState.Work, TimerState.ShortBreak, TimerState.LongBreak];
+        const start = rotation.indexOf(this.currentMode);
+        let index = -1;
+        for (let step = 1; step <= rotation.length && index === -1; step++) {
+            index = findSegmentIndex(this.getProfile(), this.segmentIndex, rotation[(start + step) % rotation.length]);
+        }
+        this.setSegment(index === -1 ? this.segmentIndex + 1 : index);
+        new Notice(`Switched to ${this.getModeText()} mode`);
+        this.persistSession();
+        this.updateUI(0, 0);
+    };
+
+    private onTimerTick(remainingTime: number, totalTime: number) {
+        this.updateUI(remainingTime, totalTime);
+        this.app.workspace.trigger(POMODIAN_EVENTS.tick, this.getSnapshot());
+
+        if (this.timer.isRunning()) {
+            const isFocus = this.currentMode === TimerState.Work;
+            for (const cue of this.cueTracker.check(this.settings.cues, remainingTime, totalTime, isFocus)) {
+                this.playCue(cue);
+            }
+        }
+    }
+
+    private playCue(cue: SessionCue) {
+        const message = getCueText(cue, this.getModeText());
+        if (cue.alert === 'sound') {
+            if (this.settings.playSound) {
+                this.soundEngine.play('warning');
+            }
+        } else if (cue.alert === 'notice') {
+            new Notice(message);
+        } else if ('Notification' in window && Notification.permission === 'granted') {
+            new Notification('Pomodian', { body: message, tag: 'pomodoro-cue' });
+        }
+    }
+
+    private updateAmbientSound() {
+        const shouldPlay = this.settings.ambientSound !== 'none' 
+            && this.timer.isRunning() 
+            && this.currentMode === TimerState.Work;
+
+        if (shouldPlay) {
+            this.soundEngine.startAmbient();
+        } else {
+            this.soundEngine.stopAmbient();
+        }
+    }
+
+    previewSound(choice: SoundChoice) {
+        this.soundEngine.playChoice(choice);
+    }
+
+    previewAmbientSound() {
+        this.soundEngine.stopAmbient();
+        this.soundEngine.startAmbient();
+        window.setTimeout(() => this.updateAmbientSound(), 4000);
+    }
+
+    /**
+     * Marks the user as active, and asks what to do with the idle time when
+     * they come back to a session that was paused for inactivity.
+     */
+    private onUserActivity() {
+        this.idleDetector.recordActivity();
+        if (this.idlePause && !this.idleModal) {
+            const minutes = Math.round((this.idlePause.pausedAt - this.idlePause.since) / 60000);
+            this.idleModal = new IdleReturnModal(this.app, minutes, (choice) => this.handleIdleReturn(choice));
+            this.idleModal.open();
+        }
+    }
+
+    /**
+     * Pauses focus sessions nobody is working on, and reminds about the
+     * timer when editing for a long time without one.
+     */
+    private checkActivity() {
+        const now = Date.now();
+        const idleSince = this.idleDetector.getLastActivity();
+
+        if (this.settings.idleDetection && !this.idlePause && this.timer.isRunning() &&
+            this.currentMode === TimerState.Work && now - idleSince >= this.settings.idleMinutes * 60 * 1000) {
+            this.idlePause = { since: idleSince, pausedAt: now };
+            this.timer.pause();
+            new Notice(`Pomodian paused after ${this.settings.idleMinutes} minutes without activity`);
+        }
+
+        if (this.timer.getState() !== TimerState.Idle || this.isSessionComplete) {
+            this.idleDetector.resetEditing(now);
+        } else if (this.settings.noTimerReminder &&
+            this.idleDetector.getEditingMs(now) >= this.settings.noTimerReminderMinutes * 60 * 1000) {
+            new Notice(`You've been writing for ${this.settings.noTimerReminderMinutes} minutes without a timer. Start a focus session?`, 8000);
+            this.idleDetector.resetEditing(now);
+        }
+    }
+
+    private handleIdleReturn(choice: IdleChoice | null) {
+        const idlePause = this.idlePause;
+        this.idlePause = null;
+        this.idleModal = null;
+        // The session may have been reset or resumed in the meantime
+        if (!idlePause || this.timer.getState() !== TimerState.Paused) return;
+
+        if (choice === 'discard') {
+            this.sessionTracker.backdatePause(idlePause.since);
+            this.timer.rewind(Math.floor((idlePause.pausedAt - idlePause.since) / 1000));
+            this.timer.resume();
+        } else if (choice === 'keep') {
+            this.timer.resume();
+        } else if (choice === 'reset') {
+            this.handleResetClick();
+        }
+    }
+
+    /**
+     * Keeps the session log in step with timer transitions. Completion and
+     * reset close the record explicitly, so Idle is ignored here.
+     */
+    private onTimerStateChange(state: TimerState) {
+        if (state === TimerState.Paused) {
+            this.sessionTracker.pause();
+        } else if (state !== TimerState.Idle) {
+            if (this.sessionTracker.isActive()) {
+                this.sessionTracker.resume();
+            } else {
+                // Focus sessions are bound to the note being worked on
+                // A scheduled block binds them to the note it links to instead
+                const noteFile = this.scheduleRun?.notePath
+                    ? this.app.vault.getAbstractFileByPath(this.scheduleRun.notePath)
+                    : this.app.workspace.getActiveFile();
+                const notePath = state === TimerState.Work && noteFile instanceof TFile ? noteFile.path : null;
+                const task = state === TimerState.Work && this.linkedTask ? getTaskLabel(this.linkedTask) : null;
+                const category = state === TimerState.Work
+                    ? this.category ?? getNoteCategory(this.app, noteFile instanceof TFile ? noteFile : null, this.settings)
+                    : null;
+                this.sessionTracker.begin(state, this.timer.getTotalTime(), notePath, task, category);
+                this.cueTracker.reset();
+                this.breakPostponed = false;
+                this.breakPromptClosed = false;
+                this.app.workspace.trigger(POMODIAN_EVENTS.start, this.getSnapshot());
+            }
+        }
+        this.updateAmbientSound();
+        this.updateFocusMode();
+        this.updateBreakPrompt();
+        this.persistSession();
+        this.app.workspace.trigger(POMODIAN_EVENTS.stateChange, this.getSnapshot());
+    }
+
+    /**
+     * Shows the break prompt while a break is running, unless it was closed
+     * or the break is postponed.
+     */
+    private async updateBreakPrompt() {
+        const state = this.timer.getState();
+        if (state !== TimerState.Paused) {
+            this.clearBreakPostpone();
+        }
+
+        const isBreak = state === TimerState.ShortBreak || state === TimerState.LongBreak;
+        if (!isBreak || this.breakPromptClosed || this.settings.breakPrompt === 'off') {
+            this.breakPrompt.hide();
+            return;
+        }
+        if (this.breakPrompt.isVisible()) return;
+
+        const suggestions = await loadBreakSuggestions(this.app, this.settings);
+        // The break may have moved on while the suggestions note was read
+        if (this.timer.getState() !== state || this.breakPrompt.isVisible()) return;
+
+        const strictness = this.settings.breakStrictness;
+        this.breakPrompt.show(this.settings.breakPrompt, suggestions, {
+            canSkip: strictness !== 'strict',
+            canPostpone: strictness === 'relaxed' || (strictness === 'moderate' && !this.breakPostponed),
+            canClose: strictness === 'relaxed',
+            postponeMinutes: this.settings.breakPostponeMinutes
+        }, this.getDisplayState());
+    }
+
+    /**
+     * Pauses the running break and picks it up again after a few minutes.
+     */
+    private postponeBreak() {
+        if (!this.timer.isRunning() || this.currentMode === TimerState.Work) return;
+
+        const minutes = this.settings.breakPostponeMinutes;
+        this.breakPostponed = true;
+        this.timer.pause();
+        new Notice(`Break postponed by ${minutes} minutes`);
+
+        this.breakPostponeTimeout = window.setTimeout(() => {
+            this.breakPostponeTimeout = null;
+            if (this.timer.getState() === TimerState.Paused) {
+                this.timer.resume();
+            }
+        }, minutes * 60 * 1000);
+    }
+
+    private clearBreakPostpone() {
+        if (this.breakPostponeTimeout !== null) {
+            clearTimeout(this.breakPostponeTimeout);
+            this.breakPostponeTimeout = null;
+        }
+    }
+
+    private closeBreakPrompt() {
+        this.breakPromptClosed = true;
+        this.breakPrompt.hide();
+    }
+
+    /**
+     * Focus mode follows running focus sessions; pausing, finishing or
+     * resetting restores the workspace.
+     */
+    private updateFocusMode() {
+        if (this.settings.focusModeEnabled && this.timer.getState() === TimerState.Work) {
+            this.focusMode.enter();
+        } else {
+            this.focusMode.exit();
+        }
+    }
+
+    /**
+     * Closes the session and adds it to the history. `deferLog` holds back
+     * the session log row until the record is final, e.g. after overtime.
+     */
+    private recordSession(outcome: SessionOutcome, end = Date.now(), deferLog = false): SessionRecord | null {
+        const record = this.sessionTracker.finish(outcome, end);
+        if (!record) return null;
+
+        this.history.push(record);
+        this.goalProgress = null;
+        this.refreshStatsViews();
+        if (!deferLog) {
+            this.writeSessionLog(record);
+        }
+        return record;
+    }
+
+    private writeSessionLog(record: SessionRecord) {
+        if (!this.settings.logSessions) return;
+        this.sessionLogWriter
+            .append(this.settings.sessionLogPath, this.settings.sessionLogFormat, record)
+            .catch((error) => {
+                console.warn('Could not write session log:', error);
+                new Notice('Pomodian: could not write to the session log');
+            });
+    }
+
+    private async openTaskSuggester() {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') {
+            new Notice('Open a note with tasks to link one');
+            return;
+        }
+
+        const tasks = findOpenTasks(file, await this.app.vault.cachedRead(file));
+        if (tasks.length === 0) {
+            new Notice('No open tasks in this note');
+            return;
+        }
+
+        new TaskSuggestModal(this.app, tasks, (task) => this.setLinkedTask(task)).open();
+    }
+
+    private setLinkedTask(task: TaskLink | null) {
+        this.linkedTask = task;
+        if (this.currentMode === TimerState.Work) {
+            this.sessionTracker.setTask(task ? getTaskLabel(task) : null);
+        }
+        new Notice(task ? `Focusing on: ${getTaskLabel(task)}` : 'Task unlinked');
+        this.persistSession();
+        this.updateUI(this.timer.getRemainingTime(), this.timer.getTotalTime());
+    }
+
+    /**
+     * The running focus session's category, or the one the next session
+     * will be given.
+     */
+    private getCategory(): string | null {
+        const active = this.sessionTracker.getActive();
+        if (active && active.mode === TimerState.Work) {
+            return active.category ?? null;
+        }
+        return this.category;
+    }
+
+    private openCategorySuggester(onChosen?: () => void) {
+        new CategorySuggestModal(this.app, this.settings, (category) => {
+            this.setCategory(category);
+            onChosen?.();
+        }).open();
+    }
+
+    private setCategory(category: string | null) {
+        // Use the configured spelling when the name matches a category
+        this.category = category ? findCategory(this.settings, category)?.name ?? category : null;
+        if (this.sessionTracker.getActive()?.mode === TimerState.Work) {
+            this.sessionTracker.setCategory(this.category);
+        }
+        new Notice(this.category ? `Category: ${this.category}` : 'Category cleared');
+        this.persistSession();
+        this.updateUI(this.timer.getRemainingTime(), this.timer.getTotalTime());
+    }
+
+    private async countPomodoroOnLinkedTask() {
+        if (!this.linkedTask) return;
+        try {
+            const updated = await recordPomodoroOnTask(this.app, this.linkedTask, this.settings.taskCounterStyle);
+            if (!updated) {
+                new Notice('Linked task could not be found, so it was unlinked');
+            }
+            this.linkedTask = updated;
+            this.persistSession();
+        } catch (error) {
+            console.warn('Could not update linked task:', error);
+        }
+    }
+
+    private writeDailyNoteEntry(record: SessionRecord, modeText = this.getModeText()) {
+        const dailyNotePath = this.dailyNoteWriter.getDailyNotePath(moment(record.end));
+        const line = renderTemplate(this.settings.dailyNoteTemplate, {
+            start: moment(record.start).format('HH:mm'),
+            end: moment(record.end).format('HH:mm'),
+            mode: modeText,
+            minutes: Math.round(record.actualSeconds / 60).toString(),
+            overtime: record.overtimeSeconds ? `+${Math.round(record.overtimeSeconds / 60)} min` : '',
+            note: record.notePath ? this.getNoteLink(record.notePath, dailyNotePath) : '',
+            task: record.task ?? '',
+            category: record.category ?? ''
+        }, moment(record.end));
+
+        this.dailyNoteWriter.append(line.trimEnd(), moment(record.end)).catch((error) => {
+            console.warn('Could not write to daily note:', error);
+            new Notice('Pomodian: could not write to the daily note');
+        });
+    }
+
+    /**
+     * Links to a note the way the vault's link settings would.
+     */
+    private getNoteLink(path: string, sourcePath: string): string {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        return file instanceof TFile 
+            ? this.app.fileManager.generateMarkdownLink(file, sourcePath) 
+            : `[[${path.replace(/\.md$/, '')}]]`;
+    }
+
+    private async insertDaySummary() {
+        const today = getStatsDate();
+        const summary = computeDaySummary(this.history, getDayKey(Date.now()));
+        const block = [
+            `**Focus summary · ${today.format('YYYY-MM-DD')}**`,
+            `- Pomodoros: ${summary.pomodoros}`,
+            `- Focus minutes: ${summary.focusMinutes}`,
+            `- Break minutes: ${summary.breakMinutes}`,
+            `- Sessions: ${summary.sessions}`
+        ].join('\n');
+
+        // Insert at the cursor when editing, otherwise into today's daily note
+        const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+        if (editor) {
+            editor.replaceSelection(`${block}\n`);
+            return;
+        }
+
+        try {
+            await this.dailyNoteWriter.append(block, today);
+            new Notice("Added today's focus summary to the daily note");
+        } catch (error) {
+            console.warn('Could not write to daily note:', error);
+            new Notice('Pomodian: could not write to the daily note');
+        }
+    }
+
+    /**
+     * Inserts the report at the cursor, or into a new note next to the
+     * session log when no note is being edited.
+     */
+    private async insertCategoryReport(range: ReportRange) {
+        const report = buildCategoryReport(this.history, range);
+        const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+        if (editor) {
+            editor.replaceSelection(`${report}\n`);
+            return;
+        }
+
+        const folder = normalizePath(this.settings.sessionLogPath).split('/').slice(0, -1).join('/');
+        const name = `Focus by category ${moment().format('YYYY-MM-DD HHmm')}.md`;
+        const path = normalizePath(folder ? `${folder}/${name}` : name);
+        try {
+            if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+                await this.app.vault.createFolder(folder);
+            }
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            const file = existing instanceof TFile ? existing : await this.app.vault.create(path, '');
+            await this.app.vault.modify(file, `${report}\n`);
+            await this.app.workspace.getLeaf(true).openFile(file);
+        } catch (error) {
+            console.warn('Could not write category report:', error);
+            new Notice('Pomodian: could not create the category report');
+        }
+    }
+
+    private onTimerComplete(finishedAt = Date.now(), finishedWhileClosed = false) {
+        // An external interruption can void the pomodoro: it isn't counted in goals or
+        // statistics, but the cycle still moves on
+        const interruptions = this.sessionTracker.getActive()?.interruptions;
+        const voided = this.currentMode === TimerState.Work && this.settings.externalVoidsPomodoro && (interruptions?.external ?? 0) > 0;
+        // Overtime keeps counting until the session is acknowledged, and the
+        // session is only logged once it is known
+        const overtime = this.currentMode === TimerState.Work && !voided && this.settings.overtime && !finishedWhileClosed && !this.finishingEarly;
+        const record = this.recordSession(voided ? 'voided' : 'completed', finishedAt, overtime);
+        if (record && !voided && !overtime && this.settings.dailyNoteEnabled && (record.mode === TimerState.Work || this.settings.dailyNoteIncludeBreaks)) {
+            this.writeDailyNoteEntry(record);
+        }
+        if (this.currentMode === TimerState.Work && !voided && this.settings.countPomodorosOnTask) {
+            this.countPomodoroOnLinkedTask();
+        }
+        this.isSessionComplete = true;
+        
+        // Play sound notification
+        if (this.settings.playSound) {
+            this.soundEngine.play(this.currentMode === TimerState.Work ? 'workEnd' : 'breakEnd');
+        }
+
+        // Show desktop notification
+        if (this.settings.showDesktopNotification) {
+            this.showDesktopNotification();
         }
 
         // Show notice
         const sessionType = this.getModeText();
-        new Notice(`${sessionType} session completed!`, 4000);
+        if (voided) {
+            new Notice(`${sessionType} session ended, but an external interruption voided the pomodoro`, 6000);
+        } else if (finishedWhileClosed) {
+            new Notice(`${sessionType} session completed while Obsidian was closed`, 6000);
+        } else {
+            new Notice(`${sessionType} session completed!`, 4000);
+        }
+
+        if (record && record.mode === TimerState.Work && !voided) {
+            this.celebrateGoals();
+        }
+
+        // Auto-advance to next mode
+        const finishedMode = this.currentMode;
+        this.advanceToNextMode(!voided);
+        this.persistSession();
+        this.app.workspace.trigger(POMODIAN_EVENTS.complete, this.getSnapshot(), record);
+        
+        // Update UI to show completion state
+        this.updateUI(0, 0);
+
+        if (record && overtime) {
+            this.startOvertime(finishedAt, record);
+            this.persistSession();
+            return;
+        }
+
+        // The reflection acknowledges the session, so nothing moves on until it is answered
+        if (record && record.mode === TimerState.Work && this.settings.reflectionPrompt) {
+            this.openReflection(record, finishedMode, finishedWhileClosed);
+            return;
+        }
+
+        // Nothing starts on its own hours later: a session that ended while
+        // Obsidian was closed stays completed until it is acknowledged, and
+        // its scheduled block isn't carried on
+        if (finishedWhileClosed) {
+            this.scheduleRun = null;
+            this.persistSession();
+            return;
+        }
+
+        // Start the next session automatically in the background
+        setTimeout(() => this.startAfterCompletion(finishedMode), 1000);
+        this.scheduleAcknowledge();
+    }
+
+    private startOvertime(since: number, record: SessionRecord | null) {
+        this.overtime = { since, record };
+        this.overtimeInterval = window.setInterval(() => this.updateUI(0, 0), 1000);
+        this.registerInterval(this.overtimeInterval);
+        this.updateUI(0, 0);
+    }
+
+    /**
+     * Stops counting overtime, adds it to the session's record and writes
+     * the record to the session log and daily note. Returns that record, or
+     * null when there was no overtime.
+     */
+    private endOvertime(): SessionRecord | null {
+        const overtime = this.overtime;
+        if (!overtime) return null;
+        this.overtime = null;
+        if (this.overtimeInterval !== null) {
+            window.clearInterval(this.overtimeInterval);
+            this.overtimeInterval = null;
+        }
+
+        // After a restart only the time the session ran out is known
+        const record = overtime.record
+            ?? [...this.history].reverse().find(candidate => candidate.end === overtime.since && candidate.mode === TimerState.Work)
+            ?? null;
+        if (record) {
+            record.overtimeSeconds = Math.max(0, Math.round((Date.now() - overtime.since) / 1000));
+            this.savePluginData().catch((error) => {
+                console.warn('Could not save the overtime:', error);
+            });
+            this.writeSessionLog(record);
+            if (this.settings.dailyNoteEnabled) {
+                this.writeDailyNoteEntry(record, this.getModeLabel(record.mode));
+            }
+        }
+        return record;
+    }
+
+    /**
+     * Acknowledging from the timer: ends overtime and then moves on the way
+     * the session would have at zero, reflection and auto-start included.
+     */
+    private handleAcknowledge() {
+        if (!this.overtime) {
+            this.acknowledgeSessionComplete();
+            return;
+        }
+
+        const record = this.endOvertime();
+        if (record && this.settings.reflectionPrompt) {
+            this.openReflection(record, TimerState.Work);
+            return;
+        }
+        this.startAfterCompletion(TimerState.Work);
+        if (this.isSessionComplete) {
+            this.acknowledgeSessionComplete();
+        }
+    }
+
+    private openReflection(record: SessionRecord, finishedMode: TimerState, finishedWhileClosed = false) {
+        // A session that ended while Obsidian was closed is reported during startup
+        this.app.workspace.onLayoutReady(() => {
+            new ReflectionModal(this.app, (reflection) => {
+                if (reflection) {
+                    this.saveReflection(record, reflection);
+                }
+                // As without a reflection, nothing carries on from a session that ended while closed
+                if (finishedWhileClosed) {
+                    this.scheduleRun = null;
+                } else {
+                    this.startAfterCompletion(finishedMode);
+                }
+                if (this.isSessionComplete) {
+                    this.acknowledgeSessionComplete();
+                }
+            }).open();
+        });
+    }
+
+    /**
+     * Stores the answers on the session record and, if enabled, adds them
+     * to the linked note or the daily note.
+     */
+    private async saveReflection(record: SessionRecord, reflection: Reflection) {
+        record.reflection = reflection;
+        this.savePluginData().catch((error) => {
+            console.warn('Could not save the reflection:', error);
+        });
+
+        const time = moment(record.end).format('HH:mm');
+        try {
+            if (this.settings.reflectionTarget === 'daily') {
+                const dailyNotePath = this.dailyNoteWriter.getDailyNotePath(moment(record.end));
+                const link = record.notePath ? ` ${this.getNoteLink(record.notePath, dailyNotePath)}` : '';
+                await this.dailyNoteWriter.append(formatReflection(reflection, `${time} ${this.getModeLabel(record.mode)}${link}`), moment(record.end));
+            } else if (this.settings.reflectionTarget === 'note' && record.notePath) {
+                const file = this.app.vault.getAbstractFileByPath(record.notePath);
+                if (!(file instanceof TFile)) {
+                    new Notice('Pomodian: the linked note no longer exists, so the reflection was only saved in the history');
+                    return;
+                }
+                const text = formatReflection(reflection, `${moment(record.end).format('YYYY-MM-DD')} ${time}`);
+                const content = await this.app.vault.read(file);
+                await this.app.vault.modify(file, insertUnderHeading(content, this.settings.reflectionHeading, text));
+            }
+        } catch (error) {
+            console.warn('Could not write reflection:', error);
+            new Notice('Pomodian: could not add the reflection to the note');
+        }
+    }
+
+    private scheduleAcknowledge() {
+        // Auto-dismiss session complete state after 10 seconds
+        setTimeout(() => {
+            if (this.isSessionComplete) {
+                this.acknowledgeSessionComplete();
+            }
+        }, 10000);
+    }
+
+    private showDesktopNotification() {
+        if ('Notification' in window && Notification.permission === 'granted') {
+            const sessionType = this.getModeText();
+            const nextSessionType = this.getNextModeText();
+            
+            const notification = new Notification(`Pomodian - ${sessionType} complete`, {
+                body: `Your ${sessionType.toLowerCase()} session is finished. Next: ${nextSessionType}`,
+                icon: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjQiIGhlaWdodD0iMjQiIHZpZXdCb3g9IjAgMCAyNCAyNCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMTIiIGN5PSIxMiIgcj0iMTAiIHN0cm9rZT0iIzY2NiIgc3Ryb2tlLXdpZHRoPSIyIiBmaWxsPSJ0cmFuc3BhcmVudCIvPgo8L3N2Zz4K',
+                requireInteraction: false,
+                tag: 'pomodoro-timer',
+                silent: false
+            });
+
+            // Auto-close notification after 5 seconds
+            setTimeout(() => {
+                notification.close();
+            }, 5000);
+        }
+    }
+
+    private advanceToNextMode(countPomodoro = true) {
+        if (this.currentMode === TimerState.Work && countPomodoro) {
+            this.completedPomodoros++;
+        }
+
+        // The active profile's sequence decides what comes next
+        this.nextSegmentIndex = (this.segmentIndex + 1) % this.getProfile().segments.length;
+        this.nextMode = this.getSegment(this.nextSegmentIndex).type;
+    }
+
+    /**
+     * Moves on from a finished session: a scheduled block starts its next
+     * step, otherwise the next session starts if auto-start is enabled.
+     */
+    private startAfterCompletion(finishedMode: TimerState) {
+        if (this.scheduleRun) {
+            this.continueScheduleRun(finishedMode);
+            return;
+        }
+
+        const autoStart = finishedMode === TimerState.Work ? this.settings.autoStartBreaks : this.settings.autoStartPomodoros;
+        if (autoStart && this.isSessionComplete) {
+            this.setSegment(this.nextSegmentIndex);
+            this.startCurrentSegment();
+        }
+    }
+
+    private acknowledgeSessionComplete() {
+        this.endOvertime();
+        this.isSessionComplete = false;
+        
+        // If timer isn't already running (auto-start), switch to next mode
+        if (!this.timer.isRunning()) {
+            this.setSegment(this.nextSegmentIndex);
+        }
+        
+        this.persistSession();
+        this.updateUI(this.timer.getRemainingTime(), this.timer.getTotalTime());
+    }
+
+    private getNextModeText(): string {
+        return this.getSegmentLabel(this.getSegment(this.nextSegmentIndex));
+    }
+}
+
+class PomodoroSettingTab extends PluginSettingTab {
+    plugin: PomodoroPlugin;
+    
+    constructor(app: App, plugin: PomodoroPlugin) { 
+        super(app, plugin); 
+        this.plugin = plugin; 
+    }
+    
+    display(): void {
+        const { containerEl } = this;
+        containerEl.empty();
+        containerEl.createEl('h2', { text: 'Pomodoro timer settings' });
+        
+        // Time Settings
+        new Setting(containerEl)
+            .setName('Work time')
+            .setDesc('Duration of focus sessions (minutes)')
+            .addSlider(slider => slider
+                .setLimits(1, 60, 2)
+                .setValue(this.plugin.settings.workTime)
+                .setDynamicTooltip()
+                .onChange(async (value) => { 
+                    this.plugin.settings.workTime = value; 
+                    await this.plugin.saveSettings(); 
+                }));
+        
+        new Setting(containerEl)
+            .setName('Short break time')
+            .setDesc('Duration of short breaks (minutes)')
+            .addSlider(slider => slider
+                .setLimits(1, 30, 1)
+                .setValue(this.plugin.settings.shortBreakTime)
+                .setDynamicTooltip()
+                .onChange(async (value) => { 
+                    this.plugin.settings.shortBreakTime = value; 
+                    await this.plugin.saveSettings(); 
+                }));
+        
+        new Setting(containerEl)
+            .setName('Long break time')
+            .setDesc('Duration of long breaks (minutes)')
+            .addSlider(slider => slider
+                .setLimits(1, 60, 1)
+                .setValue(this.plugin.settings.longBreakTime)
+                .setDynamicTooltip()
+                .onChange(async (value) => { 
+                    this.plugin.settings.longBreakTime = value; 
+                    await this.plugin.saveSettings(); 
+                }));
+
+        new Setting(containerEl)
+            .setName('Sessions until long break')
+            .setDesc('Number of focus sessions before a long break')
+            .addSlider(slider => slider
+                .setLimits(2, 10, 1)
+                .setValue(this.plugin.settings.longBreakInterval)
+                .setDynamicTooltip()
+                .onChange(async (value) => { 
+                    this.plugin.settings.longBreakInterval = value; 
+                    await this.plugin.saveSettings(); 
+                }));
+
+        new Setting(containerEl)
+            .setName('Adjustment step')
+            .setDesc('Minutes added or removed by the +/- controls and commands')
+            .addSlider(slider => slider
+                .setLimits(1, 30, 1)
+                .setValue(this.plugin.settings.adjustMinutes)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.adjustMinutes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.displayProfiles(containerEl);
+
+        containerEl.createEl('h3', { text: 'Goals' });
+
+        new Setting(containerEl)
+            .setName('Daily goal')
+            .setDesc('Pomodoros to complete each day (0 to turn off)')
+            .addSlider(slider => slider
+                .setLimits(0, 24, 1)
+                .setValue(this.plugin.settings.dailyGoal)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyGoal = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Weekly goal')
+            .setDesc('Pomodoros to complete each week (0 to turn off)')
+            .addSlider(slider => slider
+                .setLimits(0, 100, 1)
+                .setValue(this.plugin.settings.weeklyGoal)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.weeklyGoal = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Day starts at')
+            .setDesc('Hour at which counts reset. Sessions before this count towards the previous day.')
+            .addDropdown(dropdown => {
+                for (let hour = 0; hour < 13; hour++) {
+                    dropdown.addOption(hour.toString(), `${hour.toString().padStart(2, '0')}:00`);
+                }
+                dropdown
+                    .setValue(this.plugin.settings.dayStartHour.toString())
+                    .onChange(async (value) => {
+                        this.plugin.settings.dayStartHour = parseInt(value);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        containerEl.createEl('h3', { text: 'Auto-start settings' });
+        
+        new Setting(containerEl)
+            .setName('Auto-start breaks')
+            .setDesc('Automatically start break sessions')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoStartBreaks)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoStartBreaks = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Auto-start focus sessions')
+            .setDesc('Automatically start focus sessions after breaks')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoStartPomodoros)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoStartPomodoros = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Display settings' });
+
+        new Setting(containerEl)
+            .setName('Show header button')
+            .setDesc('Show the timer button in the header of the active pane. The timer panel and status bar keep working without it.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showHeaderButton)
+                .onChange(async (value) => {
+                    this.plugin.settings.showHeaderButton = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Show in status bar')
+            .setDesc('Show the mode, cycle position and countdown in the status bar')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showInStatusBar)
+                .onChange(async (value) => {
+                    this.plugin.settings.showInStatusBar = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Focus mode' });
+
+        new Setting(containerEl)
+            .setName('Focus mode')
+            .setDesc('Clear the workspace while a focus session is running. Everything is restored when it pauses, ends or resets.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.focusModeEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.focusModeEnabled = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (this.plugin.settings.focusModeEnabled) {
+            this.addFocusToggle(containerEl, 'Collapse sidebars', 'Collapse the left and right sidebars', 'focusCollapseSidebars');
+            this.addFocusToggle(containerEl, 'Hide status bar', 'Hide the status bar', 'focusHideStatusBar');
+            this.addFocusToggle(containerEl, 'Hide ribbon', 'Hide the ribbon on the left', 'focusHideRibbon');
+            this.addFocusToggle(containerEl, 'Zen mode', 'Dim tab headers and view headers', 'focusZen');
+            this.addFocusToggle(containerEl, 'Full screen', 'Enter full screen', 'focusFullScreen');
+
+            new Setting(containerEl)
+                .setName('Notes outside focus')
+                .setDesc('What happens when you open a note outside the allowed folders and tags')
+                .addDropdown(dropdown => dropdown
+                    .addOption('off', 'Allow')
+                    .addOption('warn', 'Warn')
+                    .addOption('block', 'Block')
+                    .setValue(this.plugin.settings.focusGuard)
+                    .onChange(async (value) => {
+                        this.plugin.settings.focusGuard = value as FocusGuard;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Allowed folders')
+                .setDesc('Comma separated, e.g. Projects/Spec, Research')
+                .addText(text => text
+                    .setValue(this.plugin.settings.focusAllowedFolders)
+                    .onChange(async (value) => {
+                        this.plugin.settings.focusAllowedFolders = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Allowed tags')
+                .setDesc('Comma separated, e.g. #work, #project/spec. Leave both empty to allow every note.')
+                .addText(text => text
+                    .setValue(this.plugin.settings.focusAllowedTags)
+                    .onChange(async (value) => {
+                        this.plugin.settings.focusAllowedTags = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        containerEl.createEl('h3', { text: 'Breaks' });
+
+        new Setting(containerEl)
+            .setName('Break prompt')
+            .setDesc('Show the countdown and a suggestion for what to do while a break is running')
+            .addDropdown(dropdown => dropdown
+                .addOption('off', 'Off')
+                .addOption('notification', 'Card in the corner')
+                .addOption('overlay', 'Full-window overlay')
+                .setValue(this.plugin.settings.breakPrompt)
+                .onChange(async (value) => {
+                    this.plugin.settings.breakPrompt = value as BreakPromptStyle;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (this.plugin.settings.breakPrompt !== 'off') {
+            new Setting(containerEl)
+                .setName('Strictness')
+                .setDesc('Relaxed: close, skip or postpone. Moderate: skip or postpone once. Strict: stay until the break ends.')
+                .addDropdown(dropdown => dropdown
+                    .addOption('relaxed', 'Relaxed')
+                    .addOption('moderate', 'Moderate')
+                    .addOption('strict', 'Strict')
+                    .setValue(this.plugin.settings.breakStrictness)
+                    .onChange(async (value) => {
+                        this.plugin.settings.breakStrictness = value as BreakStrictness;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Postpone by')
+                .setDesc('Minutes a break is put off when postponed')
+                .addSlider(slider => slider
+                    .setLimits(1, 15, 1)
+                    .setValue(this.plugin.settings.breakPostponeMinutes)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.breakPostponeMinutes = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Break suggestions')
+                .setDesc('One per line, shown in rotation')
+                .addTextArea(text => text
+                    .setValue(this.plugin.settings.breakSuggestions)
+                    .onChange(async (value) => {
+                        this.plugin.settings.breakSuggestions = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Suggestions note')
+                .setDesc('Use the list items of this note instead, e.g. Pomodian/Break ideas.md')
+                .addText(text => text
+                    .setPlaceholder('Pomodian/Break ideas.md')
+                    .setValue(this.plugin.settings.breakSuggestionsFile)
+                    .onChange(async (value) => {
+                        this.plugin.settings.breakSuggestionsFile = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        containerEl.createEl('h3', { text: 'Inactivity' });
+
+        new Setting(containerEl)
+            .setName('Pause when idle')
+            .setDesc('Pause focus sessions when there is no keyboard, mouse or editor activity, and ask what to do with the idle time on return')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.idleDetection)
+                .onChange(async (value) => {
+                    this.plugin.settings.idleDetection = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Idle after')
+            .setDesc('Minutes without activity before pausing')
+            .addSlider(slider => slider
+                .setLimits(1, 30, 1)
+                .setValue(this.plugin.settings.idleMinutes)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.idleMinutes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Remind to start a timer')
+            .setDesc('Show a reminder when you have been editing for a while with no timer running')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.noTimerReminder)
+                .onChange(async (value) => {
+                    this.plugin.settings.noTimerReminder = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Remind after')
+            .setDesc('Minutes of editing before the reminder')
+            .addSlider(slider => slider
+                .setLimits(5, 120, 5)
+                .setValue(this.plugin.settings.noTimerReminderMinutes)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.noTimerReminderMinutes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Notification settings' });
+
+        new Setting(containerEl)
+            .setName('Play sound')
+            .setDesc('Play a sound when sessions end')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.playSound)
+                .onChange(async (value) => {
+                    this.plugin.settings.playSound = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Volume')
+            .setDesc('Volume of notification sounds')
+            .addSlider(slider => slider
+                .setLimits(0, 100, 5)
+                .setValue(this.plugin.settings.soundVolume)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.soundVolume = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Repeat')
+            .setDesc('How many times each notification sound plays')
+            .addSlider(slider => slider
+                .setLimits(1, 5, 1)
+                .setValue(this.plugin.settings.soundRepeat)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.soundRepeat = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.addSoundSetting(containerEl, 'workEnd', 'Focus end sound', 'Played when a focus session ends');
+        this.addSoundSetting(containerEl, 'breakEnd', 'Break end sound', 'Played when a break ends');
+
+        this.addSoundSetting(containerEl, 'warning', 'Warning sound', 'Played for sound cues');
+
+        new Setting(containerEl)
+            .setName('Ambient sound')
+            .setDesc('Loop a background sound while a focus session runs. It stops on pause and during breaks.')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'None')
+                .addOption('ticking', 'Ticking clock')
+                .addOption('brown-noise', 'Brown noise')
+                .addOption('white-noise', 'White noise')
+                .addOption('file', 'Audio file from vault')
+                .setValue(this.plugin.settings.ambientSound)
+                .onChange(async (value) => {
+                    this.plugin.settings.ambientSound = value as AmbientSound;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+            .addExtraButton(button => button
+                .setIcon('play')
+                .setTooltip('Preview')
+                .onClick(() => this.plugin.previewAmbientSound()));
+
+        if (this.plugin.settings.ambientSound === 'file') {
+            new Setting(containerEl)
+                .setName('Ambient file')
+                .setDesc('Vault path of the audio file to loop')
+                .addText(text => text
+                    .setPlaceholder('Sounds/rain.mp3')
+                    .setValue(this.plugin.settings.ambientFile)
+                    .onChange(async (value) => {
+                        this.plugin.settings.ambientFile = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Ambient volume')
+            .addSlider(slider => slider
+                .setLimits(0, 100, 5)
+                .setValue(this.plugin.settings.ambientVolume)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.ambientVolume = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Desktop notifications')
+            .setDesc('Show desktop notifications when sessions end')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showDesktopNotification)
+                .onChange(async (value) => {
+                    this.plugin.settings.showDesktopNotification = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Linked tasks' });
+
+        new Setting(containerEl)
+            .setName('Count pomodoros on the linked task')
+            .setDesc('Mark the linked task each time a focus session completes')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.countPomodorosOnTask)
+                .onChange(async (value) => {
+                    this.plugin.settings.countPomodorosOnTask = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Counter style')
+            .setDesc('How completed pomodoros are added to the task line')
+            .addDropdown(dropdown => dropdown
+                .addOption('tomato', 'Append 🍅')
+                .addOption('inline-field', 'Inline field [pomodoros:: n]')
+                .setValue(this.plugin.settings.taskCounterStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.taskCounterStyle = value as TaskCounterStyle;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Reflection' });
 
-        // Auto-advance to next mode and start if enabled
-        this.advanceToNextMode();
-        
-        // Update UI to show completion state
-        this.updateUI(0, 0);
+        new Setting(containerEl)
+            .setName('Reflect after focus sessions')
+            .setDesc("Ask what you accomplished, how focused you were and what's next. The next session waits until you answer or skip.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.reflectionPrompt)
+                .onChange(async (value) => {
+                    this.plugin.settings.reflectionPrompt = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
 
-        // Auto-dismiss session complete state after 10 seconds
-        setTimeout(() => {
-            this.acknowledgeSessionComplete();
-        }, 10000);
-    }
+        if (this.plugin.settings.reflectionPrompt) {
+            new Setting(containerEl)
+                .setName('Add reflections to')
+                .setDesc('Reflections are always kept with the session history')
+                .addDropdown(dropdown => dropdown
+                    .addOption('none', 'Nowhere else')
+                    .addOption('note', 'The linked note')
+                    .addOption('daily', "Today's daily note")
+                    .setValue(this.plugin.settings.reflectionTarget)
+                    .onChange(async (value) => {
+                        this.plugin.settings.reflectionTarget = value as ReflectionTarget;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
 
-    private playNotificationSound() {
-        try {
-            // Use interface merging approach instead of casting to any
-            interface WindowWithWebkitAudioContext extends Window {
-                webkitAudioContext?: typeof AudioContext;
-            }
-            
-            const windowWithWebkit = window as WindowWithWebkitAudioContext;
-            const AudioContextConstructor = window.AudioContext || windowWithWebkit.webkitAudioContext;
-            
-            if (!AudioContextConstructor) {
-                console.warn('AudioContext not supported');
-                return;
+            if (this.plugin.settings.reflectionTarget === 'note') {
+                new Setting(containerEl)
+                    .setName('Reflection heading')
+                    .setDesc('Heading of the linked note that reflections go under; it is added when missing')
+                    .addText(text => text
+                        .setPlaceholder('## Reflections')
+                        .setValue(this.plugin.settings.reflectionHeading)
+                        .onChange(async (value) => {
+                            this.plugin.settings.reflectionHeading = value;
+                            await this.plugin.saveSettings();
+                        }));
             }
-            
-            const audioContext = new AudioContextConstructor();
-            const oscillator = audioContext.createOscillator();
-            const gainNode = audioContext.createGain();
-            
-            oscillator.connect(gainNode);
-            gainNode.connect(audioContext.destination);
-            
-            oscillator.frequency.setValueAtTime(800, audioContext.currentTime);
-            oscillator.frequency.setValueAtTime(1200, audioContext.currentTime + 0.2);
-            oscillator.type = 'sine';
-            
-            gainNode.gain.setValueAtTime(0.5, audioContext.currentTime);
-            gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 1);
-            
-            oscillator.start(audioContext.currentTime);
-            oscillator.stop(audioContext.currentTime + 1);
-        } catch (error) {
-            console.warn('Could not play notification sound:', error);
         }
-    }
 
-    private showDesktopNotification() {
-        if ('Notification' in window && Notification.permission === 'granted') {
-            const sessionType = this.getModeText();
-            const nextSessionType = this.getNextModeText();
-            
-            const notification = new Notification(`Pomodian - ${sessionType} complete`, {
-                body: `Your ${sessionType.toLowerCase()} session is finished. Next: ${nextSessionType}`,
-                icon: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjQiIGhlaWdodD0iMjQiIHZpZXdCb3g9IjAgMCAyNCAyNCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMTIiIGN5PSIxMiIgcj0iMTAiIHN0cm9rZT0iIzY2NiIgc3Ryb2tlLXdpZHRoPSIyIiBmaWxsPSJ0cmFuc3BhcmVudCIvPgo8L3N2Zz4K',
-                requireInteraction: false,
-                tag: 'pomodoro-timer',
-                silent: false
-            });
+        containerEl.createEl('h3', { text: 'Interruptions' });
 
-            // Auto-close notification after 5 seconds
-            setTimeout(() => {
-                notification.close();
-            }, 5000);
-        }
-    }
+        new Setting(containerEl)
+            .setName('Ask for a quick note')
+            .setDesc('After logging an interruption, ask what it was about and save it to the inbox')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.interruptionNotes)
+                .onChange(async (value) => {
+                    this.plugin.settings.interruptionNotes = value;
+                    await this.plugin.saveSettings();
+                }));
 
-    private advanceToNextMode() {
-        // Calculate next mode based on completed pomodoros
-        if (this.currentMode === TimerState.Work) {
-            this.completedPomodoros++;
-            
-            // Check if it's time for a long break
-            if (this.completedPomodoros % this.settings.longBreakInterval === 0) {
-                this.nextMode = TimerState.LongBreak;
-            } else {
-                this.nextMode = TimerState.ShortBreak;
-            }
-        } else {
-            // After any break, go back to work
-            this.nextMode = TimerState.Work;
-        }
+        new Setting(containerEl)
+            .setName('Interruptions inbox')
+            .setDesc('Vault path of the note quick notes are added to')
+            .addText(text => text
+                .setPlaceholder('Pomodian/Interruptions.md')
+                .setValue(this.plugin.settings.interruptionInboxPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.interruptionInboxPath = value.trim();
+                    await this.plugin.saveSettings();
+                }));
 
-        // Auto-start next session if enabled
-        if ((this.currentMode === TimerState.Work && this.settings.autoStartBreaks) ||
-            (this.currentMode !== TimerState.Work && this.settings.autoStartPomodoros)) {
-            
-            // Start the next session automatically in the background
-            setTimeout(() => {
-                if (this.isSessionComplete) {
-                    this.currentMode = this.nextMode;
-                    this.timer.start(this.currentMode);
-                }
-            }, 1000);
-        }
-    }
+        new Setting(containerEl)
+            .setName('External interruptions void the pomodoro')
+            .setDesc("A focus session with an external interruption isn't counted as a pomodoro in goals or statistics. The cycle still moves on to the next break.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.externalVoidsPomodoro)
+                .onChange(async (value) => {
+                    this.plugin.settings.externalVoidsPomodoro = value;
+                    await this.plugin.saveSettings();
+                }));
 
-    private acknowledgeSessionComplete() {
-        this.isSessionComplete = false;
-        
-        // If timer isn't already running (auto-start), switch to next mode
-        if (!this.timer.isRunning()) {
-            this.currentMode = this.nextMode;
+        this.displayCues(containerEl);
+        this.displayCategories(containerEl);
+        this.displaySchedule(containerEl);
+
+        containerEl.createEl('h3', { text: 'Daily note' });
+
+        new Setting(containerEl)
+            .setName('Log sessions to the daily note')
+            .setDesc("Append a line for each completed session under a heading of today's daily note")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.dailyNoteEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Include breaks')
+            .setDesc('Also log completed breaks')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.dailyNoteIncludeBreaks)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteIncludeBreaks = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Daily note location')
+            .setDesc('Use the core Daily notes folder and date format, or a custom path pattern')
+            .addDropdown(dropdown => dropdown
+                .addOption('core', 'Daily notes plugin')
+                .addOption('custom', 'Custom path pattern')
+                .setValue(this.plugin.settings.dailyNoteSource)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteSource = value as DailyNoteSource;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (this.plugin.settings.dailyNoteSource === 'custom') {
+            new Setting(containerEl)
+                .setName('Path pattern')
+                .setDesc('Use {{date:FORMAT}} with a moment.js format, e.g. Journal/{{date:YYYY}}/{{date:YYYY-MM-DD}}')
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.dailyNotePathPattern)
+                    .setValue(this.plugin.settings.dailyNotePathPattern)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dailyNotePathPattern = value.trim() || DEFAULT_SETTINGS.dailyNotePathPattern;
+                        await this.plugin.saveSettings();
+                    }));
         }
-        
-        this.updateUI(this.timer.getRemainingTime(), this.timer.getTotalTime());
-    }
 
-    private getNextModeText(): string {
-        return this.nextMode === TimerState.Work 
-            ? 'Focus' 
-            : this.nextMode === TimerState.ShortBreak 
-                ? 'Short break' 
-                : 'Long break';
-    }
+        new Setting(containerEl)
+            .setName('Heading')
+            .setDesc('Entries go at the end of this section. Leave empty to append to the end of the note.')
+            .addText(text => text
+                .setPlaceholder('## Focus log')
+                .setValue(this.plugin.settings.dailyNoteHeading)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteHeading = value;
+                    await this.plugin.saveSettings();
+                }));
 
-    private onTimerCompletion(state: TimerState) {
-        // This method is called when a timer session completes
-        // The main logic is now handled in onTimerComplete()
-    }
-}
+        new Setting(containerEl)
+            .setName('Entry template')
+            .setDesc('Placeholders: {{start}}, {{end}}, {{mode}}, {{minutes}}, {{overtime}}, {{note}}, {{task}}, {{category}} and {{date:FORMAT}}')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.dailyNoteTemplate)
+                .setValue(this.plugin.settings.dailyNoteTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteTemplate = value || DEFAULT_SETTINGS.dailyNoteTemplate;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Session log' });
 
-class PomodoroSettingTab extends PluginSettingTab {
-    plugin: PomodoroPlugin;
-    
-    constructor(app: App, plugin: PomodoroPlugin) { 
-        super(app, plugin); 
-        this.plugin = plugin; 
-    }
-    
-    display(): void {
-        const { containerEl } = this;
-        containerEl.empty();
-        containerEl.createEl('h2', { text: 'Pomodoro timer settings' });
-        
-        // Time Settings
         new Setting(containerEl)
-            .setName('Work time')
-            .setDesc('Duration of focus sessions (minutes)')
-            .addSlider(slider => slider
-                .setLimits(1, 60, 2)
-                .setValue(this.plugin.settings.workTime)
-                .setDynamicTooltip()
-                .onChange(async (value) => { 
-                    this.plugin.settings.workTime = value; 
-                    await this.plugin.saveSettings(); 
+            .setName('Log sessions')
+            .setDesc('Write every finished or reset session to a note in your vault')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.logSessions)
+                .onChange(async (value) => {
+                    this.plugin.settings.logSessions = value;
+                    await this.plugin.saveSettings();
                 }));
-        
+
         new Setting(containerEl)
-            .setName('Short break time')
-            .setDesc('Duration of short breaks (minutes)')
-            .addSlider(slider => slider
-                .setLimits(1, 30, 1)
-                .setValue(this.plugin.settings.shortBreakTime)
-                .setDynamicTooltip()
-                .onChange(async (value) => { 
-                    this.plugin.settings.shortBreakTime = value; 
-                    await this.plugin.saveSettings(); 
+            .setName('Log file')
+            .setDesc('Vault path of the session log. It is created on the first logged session.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.sessionLogPath)
+                .setValue(this.plugin.settings.sessionLogPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.sessionLogPath = value.trim() || DEFAULT_SETTINGS.sessionLogPath;
+                    await this.plugin.saveSettings();
                 }));
-        
+
         new Setting(containerEl)
-            .setName('Long break time')
-            .setDesc('Duration of long breaks (minutes)')
-            .addSlider(slider => slider
-                .setLimits(1, 60, 1)
-                .setValue(this.plugin.settings.longBreakTime)
-                .setDynamicTooltip()
-                .onChange(async (value) => { 
-                    this.plugin.settings.longBreakTime = value; 
-                    await this.plugin.saveSettings(); 
+            .setName('Log format')
+            .setDesc('Markdown table rows or comma-separated values')
+            .addDropdown(dropdown => dropdown
+                .addOption('markdown', 'Markdown table')
+                .addOption('csv', 'CSV')
+                .setValue(this.plugin.settings.sessionLogFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.sessionLogFormat = value as SessionLogFormat;
+                    await this.plugin.saveSettings();
                 }));
 
+        containerEl.createEl('h3', { text: 'Import and export' });
+
         new Setting(containerEl)
-            .setName('Sessions until long break')
-            .setDesc('Number of focus sessions before a long break')
-            .addSlider(slider => slider
-                .setLimits(2, 10, 1)
-                .setValue(this.plugin.settings.longBreakInterval)
-                .setDynamicTooltip()
-                .onChange(async (value) => { 
-                    this.plugin.settings.longBreakInterval = value; 
-                    await this.plugin.saveSettings(); 
+            .setName('Settings file')
+            .setDesc('Export all settings, profiles included, to this JSON file so others can import them')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.settingsFilePath)
+                .setValue(this.plugin.settings.settingsFilePath)
+                .onChange(async (value) => {
+                    this.plugin.settings.settingsFilePath = value.trim() || DEFAULT_SETTINGS.settingsFilePath;
+                    await this.plugin.saveSettings();
+                }))
+            .addButton(button => button
+                .setButtonText('Export')
+                .onClick(() => this.plugin.exportSettings()))
+            .addButton(button => button
+                .setButtonText('Import…')
+                .onClick(() => this.plugin.openSettingsImport()));
+
+        let confirmingRestore = false;
+        new Setting(containerEl)
+            .setName('Restore defaults')
+            .setDesc('Reset every setting and the sample profiles. Session history is kept.')
+            .addButton(button => button
+                .setButtonText('Restore defaults')
+                .setWarning()
+                .onClick(async () => {
+                    // Ask for a second click rather than resetting everything by accident
+                    if (!confirmingRestore) {
+                        confirmingRestore = true;
+                        button.setButtonText('Click again to confirm');
+                        return;
+                    }
+                    await this.plugin.restoreDefaultSettings();
+                    this.display();
                 }));
+    }
 
-        containerEl.createEl('h3', { text: 'Auto-start settings' });
-        
+    private addFocusToggle(containerEl: HTMLElement, name: string, desc: string, key: 'focusCollapseSidebars' | 'focusHideStatusBar' | 'focusHideRibbon' | 'focusZen' | 'focusFullScreen') {
         new Setting(containerEl)
-            .setName('Auto-start breaks')
-            .setDesc('Automatically start break sessions')
+            .setName(name)
+            .setDesc(desc)
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.autoStartBreaks)
+                .setValue(this.plugin.settings[key])
                 .onChange(async (value) => {
-                    this.plugin.settings.autoStartBreaks = value;
+                    this.plugin.settings[key] = value;
                     await this.plugin.saveSettings();
                 }));
+    }
+
+    private addSoundSetting(containerEl: HTMLElement, event: SoundEvent, name: string, desc: string) {
+        const choice = this.plugin.settings.sounds[event];
 
         new Setting(containerEl)
-            .setName('Auto-start focus sessions')
-            .setDesc('Automatically start focus sessions after breaks')
+            .setName(name)
+            .setDesc(desc)
+            .addDropdown(dropdown => {
+                dropdown.addOption('none', 'None');
+                Object.entries(BUILT_IN_CHIMES).forEach(([id, chime]) => dropdown.addOption(id, chime.name));
+                dropdown
+                    .addOption('file', 'Audio file from vault')
+                    .setValue(choice.sound)
+                    .onChange(async (value) => {
+                        choice.sound = value;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+            })
+            .addExtraButton(button => button
+                .setIcon('play')
+                .setTooltip('Preview')
+                .onClick(() => this.plugin.previewSound(choice)));
+
+        if (choice.sound === 'file') {
+            new Setting(containerEl)
+                .setName(`${name} file`)
+                .setDesc('Vault path of an audio file, e.g. an .mp3 or .wav')
+                .addText(text => text
+                    .setPlaceholder('Sounds/gong.mp3')
+                    .setValue(choice.file)
+                    .onChange(async (value) => {
+                        choice.file = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        }
+    }
+
+    private displayCues(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Cues and overtime' });
+
+        containerEl.createEl('p', {
+            text: 'Cues go off while a session runs, e.g. 2 minutes before the end or halfway through.',
+            cls: 'setting-item-description'
+        });
+
+        this.plugin.settings.cues.forEach((cue, index) => {
+            new Setting(containerEl)
+                .setClass('pomodoro-segment-setting')
+                .addText(text => {
+                    text.inputEl.type = 'number';
+                    text.inputEl.min = '1';
+                    text.setValue(String(cue.value))
+                        .onChange(async (value) => {
+                            const parsed = parseInt(value, 10);
+                            if (!isNaN(parsed) && parsed >= 1 && (cue.type === 'remaining' || parsed < 100)) {
+                                cue.value = parsed;
+                                await this.plugin.saveSettings();
+                            }
+                        });
+                })
+                .addDropdown(dropdown => dropdown
+                    .addOption('remaining', 'minutes left')
+                    .addOption('elapsed', '% done')
+                    .setValue(cue.type)
+                    .onChange(async (value) => {
+                        cue.type = value as CueType;
+                        // A percentage has to stay below 100
+                        cue.value = Math.min(cue.value, 99);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }))
+                .addDropdown(dropdown => dropdown
+                    .addOption('sound', 'Sound')
+                    .addOption('notice', 'Notice')
+                    .addOption('notification', 'System notification')
+                    .setValue(cue.alert)
+                    .onChange(async (value) => {
+                        cue.alert = value as CueAlert;
+                        await this.plugin.saveSettings();
+                    }))
+                .addToggle(toggle => toggle
+                    .setTooltip('Focus sessions only')
+                    .setValue(cue.focusOnly)
+                    .onChange(async (value) => {
+                        cue.focusOnly = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('x')
+                    .setTooltip('Remove cue')
+                    .onClick(async () => {
+                        this.plugin.settings.cues.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add cue')
+                .onClick(async () => {
+                    this.plugin.settings.cues.push({ type: 'remaining', value: 2, alert: 'notice', focusOnly: true });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Overtime')
+            .setDesc('When a focus session ends, keep counting until you acknowledge it. The extra time is saved with the session.')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.autoStartPomodoros)
+                .setValue(this.plugin.settings.overtime)
                 .onChange(async (value) => {
-                    this.plugin.settings.autoStartPomodoros = value;
+                    this.plugin.settings.overtime = value;
                     await this.plugin.saveSettings();
                 }));
+    }
 
-        containerEl.createEl('h3', { text: 'Notification settings' });
+    private displayCategories(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Categories' });
 
         new Setting(containerEl)
-            .setName('Play sound')
-            .setDesc('Play a sound when sessions end')
+            .setName('Category property')
+            .setDesc("Frontmatter property that sets a note's category, e.g. project: Acme")
+            .addText(text => text
+                .setPlaceholder('project')
+                .setValue(this.plugin.settings.categoryProperty)
+                .onChange(async (value) => {
+                    this.plugin.settings.categoryProperty = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Category from tags')
+            .setDesc('Use a note tag that matches a category below, e.g. #acme or #acme/website')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.playSound)
+                .setValue(this.plugin.settings.categoryFromTags)
                 .onChange(async (value) => {
-                    this.plugin.settings.playSound = value;
+                    this.plugin.settings.categoryFromTags = value;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('Desktop notifications')
-            .setDesc('Show desktop notifications when sessions end')
+            .setName('Ask for a category on start')
+            .setDesc('Pick a category each time a focus session is started with play')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.showDesktopNotification)
+                .setValue(this.plugin.settings.askCategoryOnStart)
                 .onChange(async (value) => {
-                    this.plugin.settings.showDesktopNotification = value;
+                    this.plugin.settings.askCategoryOnStart = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Category colours')
+            .setDesc("Colour the timer with the category's colour during focus sessions")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.categoryColors)
+                .onChange(async (value) => {
+                    this.plugin.settings.categoryColors = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.plugin.settings.categories.forEach((category, index) => {
+            new Setting(containerEl)
+                .setClass('pomodoro-segment-setting')
+                .addText(text => text
+                    .setPlaceholder('Name')
+                    .setValue(category.name)
+                    .onChange(async (value) => {
+                        category.name = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Colour, e.g. #61afef')
+                    .setValue(category.color)
+                    .onChange(async (value) => {
+                        category.color = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('x')
+                    .setTooltip('Remove category')
+                    .onClick(async () => {
+                        this.plugin.settings.categories.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add category')
+                .onClick(async () => {
+                    this.plugin.settings.categories.push({ name: `Category ${this.plugin.settings.categories.length + 1}`, color: '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    private displaySchedule(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Schedule' });
+
+        new Setting(containerEl)
+            .setName('Time blocks')
+            .setDesc('Start focus sessions and short breaks automatically from blocks such as "- 09:00-10:40 Deep work [[Spec]]"')
+            .addDropdown(dropdown => dropdown
+                .addOption('off', 'Off')
+                .addOption('note', 'From a planning note')
+                .addOption('daily', "From today's daily note")
+                .setValue(this.plugin.settings.scheduleSource)
+                .onChange(async (value) => {
+                    this.plugin.settings.scheduleSource = value as ScheduleSource;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (this.plugin.settings.scheduleSource === 'note') {
+            new Setting(containerEl)
+                .setName('Planning note')
+                .setDesc('Vault path of the note with the time blocks')
+                .addText(text => text
+                    .setPlaceholder('Schedule.md')
+                    .setValue(this.plugin.settings.scheduleNotePath)
+                    .onChange(async (value) => {
+                        this.plugin.settings.scheduleNotePath = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        if (this.plugin.settings.scheduleSource === 'daily') {
+            new Setting(containerEl)
+                .setName('Schedule heading')
+                .setDesc('Only blocks under this heading of the daily note are read. Leave empty to read the whole note.')
+                .addText(text => text
+                    .setPlaceholder('## Schedule')
+                    .setValue(this.plugin.settings.scheduleHeading)
+                    .onChange(async (value) => {
+                        this.plugin.settings.scheduleHeading = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+    }
+
+    private displayProfiles(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Profiles' });
+
+        const profiles = getAllProfiles(this.plugin.settings);
+        new Setting(containerEl)
+            .setName('Active profile')
+            .setDesc('The classic profile uses the times above. Switch only while the timer is reset.')
+            .addDropdown(dropdown => {
+                profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+                dropdown
+                    .setValue(this.plugin.settings.activeProfileId)
+                    .onChange(async (value) => {
+                        if (!this.plugin.canSwitchProfile()) {
+                            dropdown.setValue(this.plugin.settings.activeProfileId);
+                            return;
+                        }
+                        this.plugin.settings.activeProfileId = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        this.plugin.settings.profiles.forEach((profile, profileIndex) => {
+            // The running sequence comes from the active profile, so its steps only change while reset
+            const canChangeSteps = (action: string) =>
+                profile.id !== this.plugin.settings.activeProfileId || this.plugin.canSwitchProfile(action);
+
+            new Setting(containerEl)
+                .setHeading()
+                .setName(profile.name || 'Untitled profile')
+                .addText(text => text
+                    .setPlaceholder('Profile name')
+                    .setValue(profile.name)
+                    .onChange(async (value) => {
+                        profile.name = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete profile')
+                    .onClick(async () => {
+                        if (!canChangeSteps('delete the active profile')) return;
+                        this.plugin.settings.profiles.splice(profileIndex, 1);
+                        if (this.plugin.settings.activeProfileId === profile.id) {
+                            this.plugin.settings.activeProfileId = CLASSIC_PROFILE_ID;
+                        }
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+
+            profile.segments.forEach((segment, segmentIndex) => {
+                new Setting(containerEl)
+                    .setClass('pomodoro-segment-setting')
+                    .setDesc(`Step ${segmentIndex + 1}`)
+                    .addDropdown(dropdown => dropdown
+                        .addOption(TimerState.Work.toString(), 'Focus')
+                        .addOption(TimerState.ShortBreak.toString(), 'Short break')
+                        .addOption(TimerState.LongBreak.toString(), 'Long break')
+                        .setValue(segment.type.toString())
+                        .onChange(async (value) => {
+                            if (!canChangeSteps("change the active profile's steps")) {
+                                dropdown.setValue(segment.type.toString());
+                                return;
+                            }
+                            segment.type = parseInt(value, 10);
+                            await this.plugin.saveSettings();
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('Minutes')
+                        .setValue(segment.minutes.toString())
+                        .onChange(async (value) => {
+                            const minutes = parseFloat(value);
+                            if (minutes > 0) {
+                                segment.minutes = minutes;
+                                await this.plugin.saveSettings();
+                            }
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('Label')
+                        .setValue(segment.label)
+                        .onChange(async (value) => {
+                            segment.label = value;
+                            await this.plugin.saveSettings();
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('Colour, e.g. #e06c75')
+                        .setValue(segment.color)
+                        .onChange(async (value) => {
+                            segment.color = value.trim();
+                            await this.plugin.saveSettings();
+                        }))
+                    .addExtraButton(button => button
+                        .setIcon('x')
+                        .setTooltip('Remove step')
+                        .setDisabled(profile.segments.length === 1)
+                        .onClick(async () => {
+                            if (!canChangeSteps("change the active profile's steps")) return;
+                            profile.segments.splice(segmentIndex, 1);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        }));
+            });
+
+            new Setting(containerEl)
+                .addButton(button => button
+                    .setButtonText('Add step')
+                    .onClick(async () => {
+                        profile.segments.push({ type: TimerState.Work, minutes: 25, label: '', color: '' });
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add profile')
+                .setCta()
+                .onClick(async () => {
+                    this.plugin.settings.profiles.push({
+                        id: `profile-${Date.now()}`,
+                        name: 'New profile',
+                        segments: [
+                            { type: TimerState.Work, minutes: 25, label: '', color: '' },
+                            { type: TimerState.ShortBreak, minutes: 5, label: '', color: '' }
+                        ]
+                    });
                     await this.plugin.saveSettings();
+                    this.display();
                 }));
     }
 }
\ No newline at end of file
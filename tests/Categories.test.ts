@@ -0,0 +1,36 @@
+import { TimerState } from '../PomoTimer';
+import { SessionOutcome } from '../SessionLog';
+import { buildCategoryReport } from '../Categories';
+import { session } from './fixtures';
+
+const tagged = (outcome: SessionOutcome, minutes: number, category: string | null, mode = TimerState.Work) =>
+    session(mode, outcome, minutes, undefined, { category });
+
+describe('buildCategoryReport', () => {
+    it('totals focus time per category for the range', () => {
+        const history = [
+            tagged('completed', 25, 'Client A'),
+            tagged('completed', 50, 'Client B'),
+            tagged('reset', 10, 'Client A'),
+            tagged('voided', 25, 'Client A'),
+            tagged('completed', 25, null),
+            tagged('completed', 5, 'Client A', TimerState.ShortBreak)
+        ];
+        expect(buildCategoryReport(history, { label: 'Today', from: '2024-03-14', to: '2024-03-14' })).toBe([
+            '**Focus by category · Today**',
+            '',
+            '| Category | Pomodoros | Minutes |',
+            '| --- | --- | --- |',
+            '| Client B | 1 | 50 |',
+            '| Client A | 1 | 35 |',
+            '| Uncategorized | 1 | 25 |',
+            '| **Total** | **3** | **110** |'
+        ].join('\n'));
+    });
+
+    it('leaves out sessions outside the range', () => {
+        const report = buildCategoryReport([tagged('completed', 25, 'Client A')], { label: 'Yesterday', from: '2024-03-13', to: '2024-03-13' });
+        expect(report).toContain('| **Total** | **0** | **0** |');
+        expect(report).not.toContain('Client A');
+    });
+});
@@ -0,0 +1,66 @@
+import { CueTracker, SessionCue, getCueText, getCueThreshold } from '../Cues';
+
+const twoMinutesLeft: SessionCue = { type: 'remaining', value: 2, alert: 'notice', focusOnly: false };
+const halfway: SessionCue = { type: 'elapsed', value: 50, alert: 'sound', focusOnly: true };
+
+describe('getCueThreshold', () => {
+    it('converts cues to the seconds left at which they go off', () => {
+        expect(getCueThreshold(twoMinutesLeft, 1500)).toBe(120);
+        expect(getCueThreshold(halfway, 1500)).toBe(750);
+        expect(getCueThreshold({ ...halfway, value: 75 }, 1500)).toBe(375);
+    });
+});
+
+describe('getCueText', () => {
+    it('describes the cue for the current mode', () => {
+        expect(getCueText(twoMinutesLeft, 'Focus')).toBe('2 minutes left in Focus');
+        expect(getCueText({ ...twoMinutesLeft, value: 1 }, 'Focus')).toBe('1 minute left in Focus');
+        expect(getCueText(halfway, 'Short Break')).toBe('Halfway through Short Break');
+        expect(getCueText({ ...halfway, value: 75 }, 'Focus')).toBe('75% of Focus done');
+    });
+});
+
+describe('CueTracker', () => {
+    const cues = [twoMinutesLeft, halfway];
+
+    it('fires each cue once, when the countdown passes it', () => {
+        const tracker = new CueTracker();
+        expect(tracker.check(cues, 1500, 1500, true)).toEqual([]);
+        expect(tracker.check(cues, 751, 1500, true)).toEqual([]);
+        expect(tracker.check(cues, 750, 1500, true)).toEqual([halfway]);
+        expect(tracker.check(cues, 749, 1500, true)).toEqual([]);
+        expect(tracker.check(cues, 119, 1500, true)).toEqual([twoMinutesLeft]);
+        expect(tracker.check(cues, 0, 1500, true)).toEqual([]);
+    });
+
+    it('fires every cue passed in one jump', () => {
+        const tracker = new CueTracker();
+        tracker.check(cues, 1000, 1500, true);
+        expect(tracker.check(cues, 60, 1500, true)).toEqual(cues);
+    });
+
+    it('does not replay cues that were already due when tracking starts', () => {
+        const tracker = new CueTracker();
+        expect(tracker.check(cues, 100, 1500, true)).toEqual([]);
+        expect(tracker.check(cues, 99, 1500, true)).toEqual([]);
+    });
+
+    it('starts over after a reset', () => {
+        const tracker = new CueTracker();
+        tracker.check(cues, 800, 1500, true);
+        tracker.reset();
+        expect(tracker.check(cues, 700, 1500, true)).toEqual([]);
+    });
+
+    it('skips focus-only cues during breaks', () => {
+        const tracker = new CueTracker();
+        tracker.check(cues, 300, 300, false);
+        expect(tracker.check(cues, 100, 300, false)).toEqual([twoMinutesLeft]);
+    });
+
+    it('skips cues that fall outside the session', () => {
+        const tracker = new CueTracker();
+        tracker.check([twoMinutesLeft], 60, 60, true);
+        expect(tracker.check([twoMinutesLeft], 30, 60, true)).toEqual([]);
+    });
+});
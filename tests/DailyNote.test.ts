@@ -0,0 +1,46 @@
+import { moment } from 'obsidian';
+import { insertUnderHeading, renderTemplate } from '../DailyNote';
+
+describe('insertUnderHeading', () => {
+    it('adds to the end of the section, before the next heading', () => {
+        const content = '# Day\n\n## Pomodoros\n- 09:00 Focus\n\n## Notes\nText';
+        expect(insertUnderHeading(content, '## Pomodoros', '- 09:30 Focus')).toBe(
+            '# Day\n\n## Pomodoros\n- 09:00 Focus\n- 09:30 Focus\n\n## Notes\nText'
+        );
+    });
+
+    it('keeps subheadings inside the section', () => {
+        const content = '## Pomodoros\n### Morning\n- 09:00 Focus\n## Notes';
+        expect(insertUnderHeading(content, '## Pomodoros', '- 10:00 Focus')).toBe(
+            '## Pomodoros\n### Morning\n- 09:00 Focus\n- 10:00 Focus\n## Notes'
+        );
+    });
+
+    it('adds to a section at the end of the note', () => {
+        expect(insertUnderHeading('## Pomodoros\n- 09:00 Focus\n', '## Pomodoros', '- 10:00 Focus')).toBe(
+            '## Pomodoros\n- 09:00 Focus\n- 10:00 Focus\n'
+        );
+    });
+
+    it('appends the heading when it is missing', () => {
+        expect(insertUnderHeading('# Day\nText\n\n', '## Pomodoros', '- 09:00 Focus')).toBe(
+            '# Day\nText\n\n## Pomodoros\n- 09:00 Focus\n'
+        );
+        expect(insertUnderHeading('', '## Pomodoros', '- 09:00 Focus')).toBe('## Pomodoros\n- 09:00 Focus\n');
+    });
+
+    it('appends to the note without a heading', () => {
+        expect(insertUnderHeading('Text', '', '- 09:00 Focus')).toBe('Text\n\n- 09:00 Focus\n');
+    });
+});
+
+describe('renderTemplate', () => {
+    it('fills in values and date formats, leaving unknown placeholders', () => {
+        const date = moment('2024-03-14 09:35', 'YYYY-MM-DD HH:mm');
+        expect(renderTemplate('- {{start}}–{{end}} {{mode}} {{unknown}} {{date:ddd D MMM}}', {
+            start: '09:10',
+            end: '09:35',
+            mode: 'Focus'
+        }, date)).toBe('- 09:10–09:35 Focus {{unknown}} Thu 14 Mar');
+    });
+});
@@ -0,0 +1,163 @@
+import { DEFAULT_SETTINGS, PomoTimer, TimerSnapshot, TimerState } from '../PomoTimer';
+
+const NOW = new Date(2024, 2, 14, 9, 0).getTime();
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// The timer ticks through window.setInterval, as it does in Obsidian
+Object.assign(globalThis, { window: globalThis });
+
+function createTimer() {
+    const onTick = jest.fn();
+    const onStateChange = jest.fn();
+    const onComplete = jest.fn();
+    const timer = new PomoTimer(DEFAULT_SETTINGS, onTick, onStateChange, onComplete);
+    return { timer, onTick, onStateChange, onComplete };
+}
+
+beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('PomoTimer', () => {
+    it('counts down against the wall clock and completes at the end time', () => {
+        const { timer, onComplete } = createTimer();
+        timer.start(TimerState.Work);
+        expect(timer.getTotalTime()).toBe(DEFAULT_SETTINGS.workTime * 60);
+
+        jest.advanceTimersByTime(10 * MINUTE);
+        expect(timer.getRemainingTime()).toBe(15 * 60);
+
+        jest.advanceTimersByTime(15 * MINUTE);
+        expect(onComplete).toHaveBeenCalledTimes(1);
+        expect(timer.getState()).toBe(TimerState.Idle);
+    });
+
+    it('catches up when intervals are throttled', () => {
+        const { timer, onComplete } = createTimer();
+        timer.start(TimerState.ShortBreak, 5 * 60);
+
+        // The clock moves on while no interval fires, e.g. during sleep
+        jest.setSystemTime(NOW + 4 * MINUTE);
+        expect(timer.getRemainingTime()).toBe(60);
+        jest.setSystemTime(NOW + 6 * MINUTE);
+        jest.advanceTimersByTime(250);
+        expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the remaining time while paused', () => {
+        const { timer } = createTimer();
+        timer.start(TimerState.Work, 25 * 60);
+        jest.advanceTimersByTime(5 * MINUTE);
+        timer.pause();
+
+        jest.advanceTimersByTime(30 * MINUTE);
+        expect(timer.getState()).toBe(TimerState.Paused);
+        expect(timer.getRemainingTime()).toBe(20 * 60);
+
+        timer.resume();
+        expect(timer.getState()).toBe(TimerState.Work);
+        jest.advanceTimersByTime(MINUTE);
+        expect(timer.getRemainingTime()).toBe(19 * 60);
+    });
+
+    describe('snapshots', () => {
+        it('resumes a running session from its end time', () => {
+            const first = createTimer();
+            first.timer.start(TimerState.Work, 25 * 60);
+            jest.advanceTimersByTime(5 * MINUTE);
+            const snapshot = first.timer.getSnapshot();
+            first.timer.dispose();
+            expect(snapshot).toMatchObject({ state: TimerState.Work, endTime: NOW + 25 * MINUTE, totalTime: 25 * 60 });
+
+            // Obsidian was closed for two minutes
+            jest.advanceTimersByTime(2 * MINUTE);
+            const second = createTimer();
+            expect(second.timer.restore(snapshot)).toBe(false);
+            expect(second.timer.getState()).toBe(TimerState.Work);
+            expect(second.timer.getRemainingTime()).toBe(18 * 60);
+
+            jest.advanceTimersByTime(18 * MINUTE);
+            expect(second.onComplete).toHaveBeenCalledTimes(1);
+        });
+
+        it('reports a session that ended while Obsidian was closed', () => {
+            const first = createTimer();
+            first.timer.start(TimerState.Work, 25 * 60);
+            const snapshot = first.timer.getSnapshot();
+            first.timer.dispose();
+
+            jest.setSystemTime(NOW + 3 * 60 * MINUTE);
+            const second = createTimer();
+            expect(second.timer.restore(snapshot)).toBe(true);
+            expect(second.timer.getState()).toBe(TimerState.Idle);
+            // The caller reports the completion
+            jest.advanceTimersByTime(MINUTE);
+            expect(second.onComplete).not.toHaveBeenCalled();
+        });
+
+        it('restores a paused session without losing time', () => {
+            const first = createTimer();
+            first.timer.start(TimerState.LongBreak, 15 * 60);
+            jest.advanceTimersByTime(5 * MINUTE);
+            first.timer.pause();
+            const snapshot: TimerSnapshot = first.timer.getSnapshot();
+            first.timer.dispose();
+            expect(snapshot).toMatchObject({ state: TimerState.Paused, endTime: null, remainingMs: 10 * MINUTE });
+
+            jest.setSystemTime(NOW + 24 * 60 * MINUTE);
+            const second = createTimer();
+            expect(second.timer.restore(snapshot)).toBe(false);
+            expect(second.timer.getRemainingTime()).toBe(10 * 60);
+
+            second.timer.resume();
+            expect(second.timer.getState()).toBe(TimerState.LongBreak);
+        });
+
+        it('restores an idle timer as idle', () => {
+            const snapshot = createTimer().timer.getSnapshot();
+            const { timer } = createTimer();
+            expect(timer.restore(snapshot)).toBe(false);
+            expect(timer.getState()).toBe(TimerState.Idle);
+        });
+    });
+
+    describe('addTime', () => {
+        it('extends the session and its length', () => {
+            const { timer } = createTimer();
+            timer.start(TimerState.Work, 25 * 60);
+            expect(timer.addTime(5 * 60)).toBe(true);
+            expect(timer.getRemainingTime()).toBe(30 * 60);
+            expect(timer.getTotalTime()).toBe(30 * 60);
+        });
+
+        it('removes at most what is left while running, finishing the session', () => {
+            const { timer, onComplete } = createTimer();
+            timer.start(TimerState.Work, 10 * 60);
+            jest.advanceTimersByTime(7 * MINUTE);
+            expect(timer.getAddableSeconds(-5 * 60)).toBe(-3 * 60);
+            timer.addTime(-5 * 60);
+            expect(onComplete).toHaveBeenCalledTimes(1);
+        });
+
+        it('keeps the last second of a paused session and shrinks the length to match', () => {
+            const { timer } = createTimer();
+            timer.start(TimerState.Work, 10 * 60);
+            jest.advanceTimersByTime(7 * MINUTE);
+            timer.pause();
+            expect(timer.getAddableSeconds(-5 * 60)).toBe(-(3 * 60 - 1));
+            timer.addTime(-5 * 60);
+            expect(timer.getRemainingTime()).toBe(1);
+            expect(timer.getTotalTime()).toBe(10 * 60 - (3 * 60 - 1));
+        });
+
+        it('does nothing while idle', () => {
+            const { timer } = createTimer();
+            expect(timer.addTime(5 * 60)).toBe(false);
+        });
+    });
+});
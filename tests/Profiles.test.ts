@@ -0,0 +1,49 @@
+import { DEFAULT_SETTINGS, TimerState } from '../PomoTimer';
+import { CLASSIC_PROFILE_ID, DEFAULT_PROFILES, TimerProfile, buildClassicProfile, findSegmentIndex, getActiveProfile } from '../Profiles';
+
+const { Work, ShortBreak, LongBreak } = TimerState;
+
+describe('buildClassicProfile', () => {
+    it('alternates focus and short breaks, ending on a long break', () => {
+        const profile = buildClassicProfile({ ...DEFAULT_SETTINGS, workTime: 30, shortBreakTime: 6, longBreakTime: 20, longBreakInterval: 3 });
+        expect(profile.id).toBe(CLASSIC_PROFILE_ID);
+        expect(profile.segments.map(segment => [segment.type, segment.minutes])).toEqual([
+            [Work, 30], [ShortBreak, 6], [Work, 30], [ShortBreak, 6], [Work, 30], [LongBreak, 20]
+        ]);
+    });
+
+    it('goes straight to the long break with an interval of one', () => {
+        const profile = buildClassicProfile({ ...DEFAULT_SETTINGS, longBreakInterval: 1 });
+        expect(profile.segments.map(segment => segment.type)).toEqual([Work, LongBreak]);
+    });
+});
+
+describe('getActiveProfile', () => {
+    it('falls back to the classic profile for an unknown or empty profile', () => {
+        const empty: TimerProfile = { id: 'empty', name: 'Empty', segments: [] };
+        const settings = { ...DEFAULT_SETTINGS, profiles: [...DEFAULT_PROFILES, empty] };
+        expect(getActiveProfile({ ...settings, activeProfileId: 'ultradian' }).name).toBe('Ultradian 90/20');
+        expect(getActiveProfile({ ...settings, activeProfileId: 'missing' }).id).toBe(CLASSIC_PROFILE_ID);
+        expect(getActiveProfile({ ...settings, activeProfileId: 'empty' }).id).toBe(CLASSIC_PROFILE_ID);
+    });
+});
+
+describe('findSegmentIndex', () => {
+    const profile = DEFAULT_PROFILES[0];
+
+    it('finds the next segment of a type after the current one', () => {
+        expect(findSegmentIndex(profile, 0, ShortBreak)).toBe(1);
+        expect(findSegmentIndex(profile, 1, Work)).toBe(2);
+        expect(findSegmentIndex(profile, 0, LongBreak)).toBe(5);
+    });
+
+    it('wraps around to the start of the profile', () => {
+        expect(findSegmentIndex(profile, 5, Work)).toBe(0);
+        expect(findSegmentIndex(profile, 4, Work)).toBe(0);
+        expect(findSegmentIndex(profile, 5, LongBreak)).toBe(5);
+    });
+
+    it('returns -1 when the profile has no segment of that type', () => {
+        expect(findSegmentIndex(DEFAULT_PROFILES[1], 0, LongBreak)).toBe(-1);
+    });
+});
@@ -0,0 +1,64 @@
+import { ObsidianProtocolData } from 'obsidian';
+import { TimerState } from '../PomoTimer';
+import { parseProtocolRequest } from '../Protocol';
+import { MAX_MINUTES } from '../QuickStart';
+
+function params(action: string, values: Record<string, string> = {}): ObsidianProtocolData {
+    return { action, ...values };
+}
+
+describe('parseProtocolRequest', () => {
+    it('reads the action from the query or the path', () => {
+        expect(parseProtocolRequest(params('pomodian', { action: 'start' })).action).toBe('start');
+        expect(parseProtocolRequest(params('pomodian/switch-mode')).action).toBe('switch-mode');
+        expect(parseProtocolRequest(params('pomodian/Switch_Mode')).action).toBe('switch-mode');
+    });
+
+    it('rejects missing and unknown actions', () => {
+        expect(() => parseProtocolRequest(params('pomodian'))).toThrow('Missing action');
+        expect(() => parseProtocolRequest(params('pomodian/stop'))).toThrow('Unknown action "stop"');
+    });
+
+    it('reads every option of a start link', () => {
+        const request = parseProtocolRequest(params('pomodian/start', {
+            mode: 'short-break',
+            minutes: '7',
+            note: ' Projects/Spec ',
+            category: 'Client A',
+            copy: 'true'
+        }));
+        expect(request).toEqual({
+            action: 'start',
+            mode: TimerState.ShortBreak,
+            minutes: 7,
+            note: 'Projects/Spec',
+            category: 'Client A',
+            copy: true
+        });
+    });
+
+    it('leaves unset options empty', () => {
+        expect(parseProtocolRequest(params('pomodian/status'))).toEqual({
+            action: 'status',
+            mode: null,
+            minutes: null,
+            note: null,
+            category: null,
+            copy: false
+        });
+    });
+
+    it('accepts mode aliases and rejects unknown modes', () => {
+        expect(parseProtocolRequest(params('pomodian/start', { mode: 'Focus' })).mode).toBe(TimerState.Work);
+        expect(parseProtocolRequest(params('pomodian/start', { mode: 'long' })).mode).toBe(TimerState.LongBreak);
+        expect(() => parseProtocolRequest(params('pomodian/start', { mode: 'nap' }))).toThrow('Unknown mode "nap"');
+    });
+
+    it('rounds minutes and keeps them within range', () => {
+        expect(parseProtocolRequest(params('pomodian/start', { minutes: '24.6' })).minutes).toBe(25);
+        expect(parseProtocolRequest(params('pomodian/start', { minutes: String(MAX_MINUTES) })).minutes).toBe(MAX_MINUTES);
+        for (const minutes of ['0', '0.4', '-5', 'ten', String(MAX_MINUTES + 1)]) {
+            expect(() => parseProtocolRequest(params('pomodian/start', { minutes }))).toThrow('Minutes must be a number');
+        }
+    });
+});
@@ -0,0 +1,50 @@
+import { TimerState } from '../PomoTimer';
+import { formatMinutes, parseQuickStart } from '../QuickStart';
+
+describe('parseQuickStart', () => {
+    it('reads plain minutes without a mode', () => {
+        expect(parseQuickStart('45')).toEqual({ mode: null, minutes: 45 });
+        expect(parseQuickStart(' 25 min ')).toEqual({ mode: null, minutes: 25 });
+    });
+
+    it('reads hours, alone or with minutes', () => {
+        expect(parseQuickStart('1h')).toEqual({ mode: null, minutes: 60 });
+        expect(parseQuickStart('1h30')).toEqual({ mode: null, minutes: 90 });
+        expect(parseQuickStart('1.5 hours')).toEqual({ mode: null, minutes: 90 });
+        expect(parseQuickStart('1,5h')).toEqual({ mode: null, minutes: 90 });
+    });
+
+    it('picks up the mode next to the duration', () => {
+        expect(parseQuickStart('20m break')).toEqual({ mode: TimerState.ShortBreak, minutes: 20 });
+        expect(parseQuickStart('long 30')).toEqual({ mode: TimerState.LongBreak, minutes: 30 });
+        expect(parseQuickStart('Long break 15')).toEqual({ mode: TimerState.LongBreak, minutes: 15 });
+        expect(parseQuickStart('focus 50')).toEqual({ mode: TimerState.Work, minutes: 50 });
+    });
+
+    it('returns a mode alone when no duration is given', () => {
+        expect(parseQuickStart('break')).toEqual({ mode: TimerState.ShortBreak, minutes: null });
+        expect(parseQuickStart('work')).toEqual({ mode: TimerState.Work, minutes: null });
+    });
+
+    it('rejects durations out of range', () => {
+        expect(parseQuickStart('0')).toBeNull();
+        expect(parseQuickStart('0.2')).toBeNull();
+        expect(parseQuickStart('12h')).toEqual({ mode: null, minutes: 720 });
+        expect(parseQuickStart('12h1')).toBeNull();
+        expect(parseQuickStart('1000')).toBeNull();
+    });
+
+    it('returns null when there is nothing to go on', () => {
+        expect(parseQuickStart('')).toBeNull();
+        expect(parseQuickStart('   ')).toBeNull();
+        expect(parseQuickStart('something')).toBeNull();
+    });
+});
+
+describe('formatMinutes', () => {
+    it('switches to hours from an hour on', () => {
+        expect(formatMinutes(45)).toBe('45 min');
+        expect(formatMinutes(60)).toBe('1 h');
+        expect(formatMinutes(90)).toBe('1 h 30 min');
+    });
+});
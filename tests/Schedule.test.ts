@@ -0,0 +1,78 @@
+import { TimerState } from '../PomoTimer';
+import { findOverlaps, formatBlock, getBlockKey, getNextScheduledStep, parseSchedule } from '../Schedule';
+
+const MINUTE = 60;
+
+describe('parseSchedule', () => {
+    const note = [
+        '# Monday',
+        '',
+        '## Schedule',
+        '- 13:00-14:00 Lunch',
+        '- 09:00-10:40 Deep work [[Projects/Spec|Spec]]',
+        '* [ ] 10:50–11:30 Email',
+        '- 12:00-11:00 Backwards',
+        '- 25:00-26:00 Not a time',
+        'Some notes about the day',
+        '### Ideas',
+        '- 15:00-15:30 Still in the schedule',
+        '## Later',
+        '- 16:00-17:00 Another section'
+    ].join('\n');
+
+    it('reads the blocks under the heading, sorted by start', () => {
+        expect(parseSchedule(note, '## Schedule')).toEqual([
+            { start: 9 * 60, end: 10 * 60 + 40, title: 'Deep work Spec', link: 'Projects/Spec' },
+            { start: 10 * 60 + 50, end: 11 * 60 + 30, title: 'Email', link: null },
+            { start: 13 * 60, end: 14 * 60, title: 'Lunch', link: null },
+            { start: 15 * 60, end: 15 * 60 + 30, title: 'Still in the schedule', link: null }
+        ]);
+    });
+
+    it('reads the whole note without a heading', () => {
+        expect(parseSchedule(note, '')).toHaveLength(5);
+    });
+
+    it('finds nothing when the heading is missing', () => {
+        expect(parseSchedule(note, '## Plan')).toEqual([]);
+    });
+});
+
+describe('findOverlaps', () => {
+    it('pairs blocks whose times overlap', () => {
+        const blocks = parseSchedule('- 09:00-10:00 A\n- 09:30-11:00 B\n- 10:00-10:30 C\n- 11:00-12:00 D', '');
+        expect(findOverlaps(blocks).map(([a, b]) => `${a.title}/${b.title}`)).toEqual(['A/B', 'B/C']);
+    });
+});
+
+describe('block formatting', () => {
+    it('formats blocks and keys them by day', () => {
+        const [block] = parseSchedule('- 9:05-10:40 Deep work', '');
+        expect(formatBlock(block)).toBe('09:05–10:40 Deep work');
+        expect(getBlockKey('2024-03-14', block)).toBe('2024-03-14 09:05-10:40 Deep work');
+    });
+});
+
+describe('getNextScheduledStep', () => {
+    const work = 25 * MINUTE;
+    const shortBreak = 5 * MINUTE;
+
+    it('starts with a full focus session when the block has room', () => {
+        expect(getNextScheduledStep(null, 100 * MINUTE, work, shortBreak)).toEqual({ mode: TimerState.Work, seconds: work });
+        expect(getNextScheduledStep(TimerState.ShortBreak, 60 * MINUTE, work, shortBreak)).toEqual({ mode: TimerState.Work, seconds: work });
+    });
+
+    it('stretches the last focus session over a short leftover', () => {
+        expect(getNextScheduledStep(TimerState.ShortBreak, 30 * MINUTE, work, shortBreak)).toEqual({ mode: TimerState.Work, seconds: 30 * MINUTE });
+    });
+
+    it('follows focus with a break while another focus session still fits', () => {
+        expect(getNextScheduledStep(TimerState.Work, 10 * MINUTE, work, shortBreak)).toEqual({ mode: TimerState.ShortBreak, seconds: shortBreak });
+        expect(getNextScheduledStep(TimerState.Work, 9 * MINUTE, work, shortBreak)).toBeNull();
+    });
+
+    it('ends the block when too little time is left to focus', () => {
+        expect(getNextScheduledStep(TimerState.ShortBreak, 4 * MINUTE, work, shortBreak)).toBeNull();
+        expect(getNextScheduledStep(null, 0, work, shortBreak)).toBeNull();
+    });
+});
@@ -0,0 +1,87 @@
+import { App, TFile } from 'obsidian';
+import { TimerState } from '../PomoTimer';
+import { SessionLogFormat, SessionLogWriter, SessionRecord, SessionTracker } from '../SessionLog';
+
+const START = new Date(2024, 2, 14, 9, 0).getTime();
+const MINUTE = 60 * 1000;
+
+/**
+ * Keeps written notes in memory, the way the vault would.
+ */
+function createApp(files: Record<string, string> = {}) {
+    const fileFor = (path: string) => Object.assign(new TFile(), { path });
+    const vault = {
+        getAbstractFileByPath: (path: string) => path in files ? fileFor(path) : null,
+        read: async (file: TFile) => files[file.path],
+        append: async (file: TFile, text: string) => { files[file.path] += text; },
+        create: async (path: string, text: string) => { files[path] = text; },
+        createFolder: async () => undefined
+    };
+    return { app: { vault } as unknown as App, files };
+}
+
+const record: SessionRecord = {
+    mode: TimerState.Work,
+    start: START,
+    end: START + 30 * MINUTE,
+    plannedSeconds: 1500,
+    actualSeconds: 1500,
+    adjustedSeconds: 300,
+    pauseCount: 1,
+    outcome: 'completed',
+    notePath: 'Projects/Spec.md',
+    task: 'Write the intro, then | review',
+    category: 'Client A',
+    interruptions: { internal: 2, external: 1 },
+    overtimeSeconds: 90
+};
+
+async function writeLog(format: SessionLogFormat, existing?: string): Promise<string[]> {
+    const { app, files } = createApp(existing === undefined ? {} : { 'Logs/Sessions.md': existing });
+    await new SessionLogWriter(app).append('Logs/Sessions.md', format, record);
+    return files['Logs/Sessions.md'].split('\n');
+}
+
+describe('SessionLogWriter', () => {
+    it('creates a Markdown table with every column', async () => {
+        const [header, separator, row] = await writeLog('markdown');
+        expect(header).toBe('| Mode | Start | End | Planned (min) | Actual (min) | Adjusted (min) | Pauses | Outcome | Note | Task | Category | Internal | External | Overtime (min) |');
+        expect(separator.split('|')).toHaveLength(header.split('|').length);
+        expect(row).toBe('| Work | 2024-03-14 09:00 | 2024-03-14 09:30 | 25.0 | 25.0 | 5.0 | 1 | completed | [[Projects/Spec]] | Write the intro, then \\| review | Client A | 2 | 1 | 1.5 |');
+    });
+
+    it('creates a CSV file with every column', async () => {
+        const [header, row] = await writeLog('csv');
+        expect(header).toBe('mode,start,end,planned_seconds,actual_seconds,adjusted_seconds,pauses,outcome,note,task,category,internal_interruptions,external_interruptions,overtime_seconds');
+        expect(row.endsWith(',completed,Projects/Spec.md,"Write the intro, then | review",Client A,2,1,90')).toBe(true);
+    });
+
+    it('appends rows to an existing log', async () => {
+        const lines = await writeLog('markdown', '| Mode |\n| --- |');
+        expect(lines).toHaveLength(4);
+        expect(lines[2]).toMatch(/^\| Work \| /);
+        expect(lines[3]).toBe('');
+    });
+});
+
+describe('SessionTracker', () => {
+    it('leaves pauses out of the actual time', () => {
+        const tracker = new SessionTracker();
+        tracker.begin(TimerState.Work, 1500, null, null, 'Client A', START);
+        tracker.pause(START + 10 * MINUTE);
+        tracker.resume(START + 15 * MINUTE);
+        tracker.interrupt('internal');
+        const finished = tracker.finish('completed', START + 30 * MINUTE);
+        expect(finished).toMatchObject({
+            actualSeconds: 25 * 60,
+            pauseCount: 1,
+            category: 'Client A',
+            interruptions: { internal: 1, external: 0 }
+        });
+        expect(tracker.isActive()).toBe(false);
+    });
+
+    it('returns nothing when no session is being timed', () => {
+        expect(new SessionTracker().finish('reset')).toBeNull();
+    });
+});
@@ -0,0 +1,146 @@
+import { DEFAULT_SETTINGS, TimerState } from '../PomoTimer';
+import { DEFAULT_PROFILES } from '../Profiles';
+import {
+    SETTINGS_EXPORT_TYPE,
+    SETTINGS_VERSION,
+    createSettingsExport,
+    migrateSettings,
+    parseSettingsExport,
+    validateSettings
+} from '../SettingsSchema';
+
+describe('migrateSettings', () => {
+    it('seeds the sample profiles for settings from before profiles', () => {
+        const migrated = migrateSettings({ workTime: 30 }, 0);
+        expect(migrated.workTime).toBe(30);
+        expect(migrated.profiles).toEqual(DEFAULT_PROFILES);
+        expect(migrated.profiles).not.toBe(DEFAULT_PROFILES);
+    });
+
+    it('keeps existing profiles', () => {
+        const profiles = [{ id: 'mine', name: 'Mine', segments: [] }];
+        expect(migrateSettings({ profiles }, 0).profiles).toBe(profiles);
+    });
+
+    it('turns the last-minute warning into a sound cue', () => {
+        const migrated = migrateSettings({ lastMinuteWarning: true }, 1);
+        expect(migrated.cues).toEqual([{ type: 'remaining', value: 1, alert: 'sound', focusOnly: false }]);
+        expect('lastMinuteWarning' in migrated).toBe(false);
+    });
+
+    it('drops a warning that was off', () => {
+        const migrated = migrateSettings({ lastMinuteWarning: false }, 1);
+        expect(migrated.cues).toEqual([]);
+        expect('lastMinuteWarning' in migrated).toBe(false);
+    });
+
+    it('leaves current settings alone', () => {
+        const raw = { workTime: 40, lastMinuteWarning: true };
+        expect(migrateSettings(raw, SETTINGS_VERSION)).toEqual(raw);
+    });
+
+    it('starts from nothing when the input is not an object', () => {
+        expect(migrateSettings(null, SETTINGS_VERSION)).toEqual({});
+        expect(migrateSettings([1, 2], SETTINGS_VERSION)).toEqual({});
+    });
+});
+
+describe('validateSettings', () => {
+    it('fills in the defaults for missing values', () => {
+        const { settings, problems } = validateSettings({});
+        expect(settings).toEqual(DEFAULT_SETTINGS);
+        expect(settings.sounds).not.toBe(DEFAULT_SETTINGS.sounds);
+        expect(problems).toEqual([]);
+    });
+
+    it('clamps numbers to the slider ranges', () => {
+        const { settings, problems } = validateSettings({ workTime: 500, soundVolume: -10 });
+        expect(settings.workTime).toBe(60);
+        expect(settings.soundVolume).toBe(0);
+        expect(problems).toHaveLength(2);
+    });
+
+    it('falls back for mistyped, non-finite and unknown values', () => {
+        const { settings, problems } = validateSettings({
+            workTime: '25',
+            shortBreakTime: NaN,
+            sessionLogFormat: 'xml'
+        });
+        expect(settings.workTime).toBe(DEFAULT_SETTINGS.workTime);
+        expect(settings.shortBreakTime).toBe(DEFAULT_SETTINGS.shortBreakTime);
+        expect(settings.sessionLogFormat).toBe(DEFAULT_SETTINGS.sessionLogFormat);
+        expect(problems).toEqual([
+            'workTime: expected a number',
+            'shortBreakTime: not a number',
+            'sessionLogFormat: unknown value "xml"'
+        ]);
+    });
+
+    it('ignores keys it does not know', () => {
+        const { settings } = validateSettings({ somethingElse: 1 });
+        expect('somethingElse' in settings).toBe(false);
+    });
+
+    it('keeps valid cues and drops broken ones', () => {
+        const { settings, problems } = validateSettings({
+            cues: [
+                { type: 'remaining', value: 2, alert: 'notice', focusOnly: true },
+                { type: 'elapsed', value: 100, alert: 'sound' },
+                { type: 'later', value: 5, alert: 'sound' },
+                { type: 'elapsed', value: 50, alert: 'notification' }
+            ]
+        });
+        expect(settings.cues).toEqual([
+            { type: 'remaining', value: 2, alert: 'notice', focusOnly: true },
+            { type: 'elapsed', value: 50, alert: 'notification', focusOnly: false }
+        ]);
+        expect(problems).toHaveLength(2);
+    });
+
+    it('drops segments without a known type or positive length', () => {
+        const { settings, problems } = validateSettings({
+            profiles: [{
+                id: 'custom',
+                segments: [
+                    { type: TimerState.Work, minutes: 900 },
+                    { type: TimerState.Paused, minutes: 5 },
+                    { type: TimerState.ShortBreak, minutes: 0 }
+                ]
+            }]
+        });
+        expect(settings.profiles).toEqual([{
+            id: 'custom',
+            name: 'custom',
+            segments: [{ type: TimerState.Work, minutes: 600, label: '', color: '' }]
+        }]);
+        expect(problems).toHaveLength(2);
+    });
+
+    it('requires category names', () => {
+        const { settings, problems } = validateSettings({
+            categories: [{ name: ' Client A ', color: '#f00' }, { name: '' }, { color: '#0f0' }]
+        });
+        expect(settings.categories).toEqual([{ name: 'Client A', color: '#f00' }]);
+        expect(problems).toHaveLength(2);
+    });
+});
+
+describe('settings export', () => {
+    it('reads back what it exported', () => {
+        const { settings } = validateSettings({ workTime: 45, cues: [] });
+        const { settings: imported, problems } = parseSettingsExport(createSettingsExport(settings));
+        expect(imported).toEqual(settings);
+        expect(problems).toEqual([]);
+    });
+
+    it('migrates files from older versions', () => {
+        const json = JSON.stringify({ type: SETTINGS_EXPORT_TYPE, version: 1, settings: { lastMinuteWarning: true } });
+        expect(parseSettingsExport(json).settings.cues).toEqual([{ type: 'remaining', value: 1, alert: 'sound', focusOnly: false }]);
+    });
+
+    it('rejects other files and newer versions', () => {
+        expect(() => parseSettingsExport('{"workTime": 25}')).toThrow('Not a Pomodian settings file');
+        const newer = JSON.stringify({ type: SETTINGS_EXPORT_TYPE, version: SETTINGS_VERSION + 1, settings: {} });
+        expect(() => parseSettingsExport(newer)).toThrow('newer version');
+    });
+});
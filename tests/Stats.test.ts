@@ -0,0 +1,143 @@
+import { TimerState } from '../PomoTimer';
+import { SessionRecord } from '../SessionLog';
+import {
+    computeBreakdown,
+    computeDayCounts,
+    computeDaySummary,
+    computeGoalProgress,
+    computeStats,
+    getDayKey,
+    isFocusTime,
+    setDayStartHour
+} from '../Stats';
+import { DAY, NOW, session } from './fixtures';
+
+const focus = (minutes: number, end?: number, extra?: Partial<SessionRecord>) => session(TimerState.Work, 'completed', minutes, end, extra);
+
+beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+    setDayStartHour(0);
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('isFocusTime', () => {
+    it('counts focus sessions however they ended, except voided ones', () => {
+        expect(isFocusTime(focus(25))).toBe(true);
+        expect(isFocusTime(session(TimerState.Work, 'reset', 10))).toBe(true);
+        expect(isFocusTime(session(TimerState.Work, 'voided', 25))).toBe(false);
+        expect(isFocusTime(session(TimerState.ShortBreak, 'completed', 5))).toBe(false);
+    });
+});
+
+describe('computeStats', () => {
+    const history = [
+        focus(25),
+        session(TimerState.Work, 'reset', 10),
+        session(TimerState.Work, 'voided', 25),
+        session(TimerState.ShortBreak, 'completed', 5),
+        focus(25, NOW - DAY),
+        focus(25, NOW - 3 * DAY)
+    ];
+
+    it('totals pomodoros and focus minutes, leaving out breaks and voided sessions', () => {
+        const stats = computeStats(history);
+        expect(stats.totalPomodoros).toBe(3);
+        expect(stats.totalMinutes).toBe(85);
+        expect(stats.todayPomodoros).toBe(1);
+    });
+
+    it('fills in every day and week of the range', () => {
+        const stats = computeStats(history, 7, 2);
+        expect(stats.days.map(day => day.key)).toEqual([
+            '2024-03-08', '2024-03-09', '2024-03-10', '2024-03-11', '2024-03-12', '2024-03-13', '2024-03-14'
+        ]);
+        expect(stats.days[6]).toMatchObject({ pomodoros: 1, minutes: 35 });
+        expect(stats.days[5]).toMatchObject({ pomodoros: 1, minutes: 25 });
+        expect(stats.days[4]).toMatchObject({ pomodoros: 0, minutes: 0 });
+        expect(stats.weeks.map(week => week.key)).toEqual(['2024-03-04', '2024-03-11']);
+        expect(stats.weeks[1]).toMatchObject({ pomodoros: 3, minutes: 85 });
+    });
+
+    it('counts streaks of days with a completed pomodoro', () => {
+        const stats = computeStats(history);
+        expect(stats.currentStreak).toBe(2);
+        expect(stats.longestStreak).toBe(2);
+    });
+
+    it('keeps the streak alive before the first pomodoro of the day', () => {
+        const stats = computeStats([focus(25, NOW - DAY), focus(25, NOW - 2 * DAY)]);
+        expect(stats.currentStreak).toBe(2);
+    });
+});
+
+describe('day boundary', () => {
+    it('counts late-night sessions towards the previous day', () => {
+        const lateNight = new Date(2024, 2, 14, 2, 30).getTime();
+        expect(getDayKey(lateNight)).toBe('2024-03-14');
+        setDayStartHour(4);
+        expect(getDayKey(lateNight)).toBe('2024-03-13');
+    });
+});
+
+describe('computeBreakdown', () => {
+    it('groups focus time by label, largest first', () => {
+        const history = [
+            focus(25, undefined, { category: 'Client A' }),
+            focus(50, undefined, { category: 'Client B' }),
+            session(TimerState.Work, 'reset', 10, undefined, { category: 'Client A' }),
+            session(TimerState.Work, 'voided', 25, undefined, { category: 'Client A' }),
+            session(TimerState.ShortBreak, 'completed', 5, undefined, { category: 'Client A' })
+        ];
+        expect(computeBreakdown(history, record => record.category ? [record.category] : [])).toEqual([
+            { label: 'Client B', pomodoros: 1, minutes: 50 },
+            { label: 'Client A', pomodoros: 1, minutes: 35 }
+        ]);
+    });
+});
+
+describe('computeDaySummary', () => {
+    it('sums focus and break minutes for one day', () => {
+        const history = [
+            focus(25),
+            session(TimerState.ShortBreak, 'completed', 5),
+            session(TimerState.Work, 'voided', 25),
+            focus(25, NOW - DAY)
+        ];
+        expect(computeDaySummary(history, '2024-03-14')).toEqual({
+            pomodoros: 1,
+            focusMinutes: 25,
+            breakMinutes: 5,
+            sessions: 2
+        });
+    });
+});
+
+describe('computeDayCounts', () => {
+    it('counts pomodoros and focus minutes per day', () => {
+        const counts = computeDayCounts([
+            focus(25),
+            session(TimerState.Work, 'voided', 25),
+            focus(30, NOW - DAY),
+            session(TimerState.Work, 'skipped', 12, NOW - DAY)
+        ]);
+        expect(counts.get('2024-03-14')).toMatchObject({ pomodoros: 1, minutes: 25 });
+        expect(counts.get('2024-03-13')).toMatchObject({ pomodoros: 1, minutes: 42 });
+        expect(counts.size).toBe(2);
+    });
+});
+
+describe('computeGoalProgress', () => {
+    it('counts completed pomodoros today and this ISO week', () => {
+        const history = [
+            focus(25),
+            focus(25, NOW - DAY),
+            session(TimerState.Work, 'voided', 25),
+            // The Sunday before belongs to the previous week
+            focus(25, new Date(2024, 2, 10, 18, 0).getTime())
+        ];
+        expect(computeGoalProgress(history, NOW)).toEqual({ today: 1, week: 2 });
+    });
+});
@@ -0,0 +1,44 @@
+import { TFile } from 'obsidian';
+import { addPomodoroToLine, findOpenTasks, getTaskLabel } from '../TaskLink';
+
+function task(text: string) {
+    return { path: 'Tasks.md', line: 0, text };
+}
+
+describe('findOpenTasks', () => {
+    it('lists open task lines with their line numbers', () => {
+        const file = Object.assign(new TFile(), { path: 'Tasks.md' });
+        const content = '# Today\n- [ ] Write report\n- [x] Done already\n  * [ ] Nested task\nNot a task';
+        expect(findOpenTasks(file, content)).toEqual([
+            { path: 'Tasks.md', line: 1, text: '- [ ] Write report' },
+            { path: 'Tasks.md', line: 3, text: '  * [ ] Nested task' }
+        ]);
+    });
+});
+
+describe('getTaskLabel', () => {
+    it('drops the checkbox and any pomodoro counters', () => {
+        expect(getTaskLabel(task('- [ ] Write report'))).toBe('Write report');
+        expect(getTaskLabel(task('- [ ] Write report 🍅 🍅'))).toBe('Write report');
+        expect(getTaskLabel(task('- [ ] Write report [pomodoros:: 3]'))).toBe('Write report');
+        expect(getTaskLabel(task('- [ ] Write report 🍅 ^abc-1'))).toBe('Write report ^abc-1');
+    });
+});
+
+describe('addPomodoroToLine', () => {
+    it('appends a tomato per pomodoro', () => {
+        expect(addPomodoroToLine('- [ ] Write report', 'tomato')).toBe('- [ ] Write report 🍅');
+        expect(addPomodoroToLine('- [ ] Write report 🍅  ', 'tomato')).toBe('- [ ] Write report 🍅 🍅');
+    });
+
+    it('adds or bumps the inline field', () => {
+        expect(addPomodoroToLine('- [ ] Write report', 'inline-field')).toBe('- [ ] Write report [pomodoros:: 1]');
+        expect(addPomodoroToLine('- [ ] Write report [pomodoros:: 9] #work', 'inline-field'))
+            .toBe('- [ ] Write report [pomodoros:: 10] #work');
+    });
+
+    it('keeps the block id at the end of the line', () => {
+        expect(addPomodoroToLine('- [ ] Write report ^abc-1', 'tomato')).toBe('- [ ] Write report 🍅 ^abc-1');
+        expect(addPomodoroToLine('- [ ] Write report ^abc-1', 'inline-field')).toBe('- [ ] Write report [pomodoros:: 1] ^abc-1');
+    });
+});
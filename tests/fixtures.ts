@@ -0,0 +1,24 @@
+import { TimerState } from '../PomoTimer';
+import { SessionOutcome, SessionRecord } from '../SessionLog';
+
+// Thursday 14 March 2024, 12:00 local time
+export const NOW = new Date(2024, 2, 14, 12, 0).getTime();
+export const HOUR = 60 * 60 * 1000;
+export const DAY = 24 * HOUR;
+
+/**
+ * A logged session of `minutes` that ended at `end` (an hour before NOW by
+ * default), planned as a 25-minute session without pauses.
+ */
+export function session(mode: TimerState, outcome: SessionOutcome, minutes: number, end = NOW - HOUR, extra: Partial<SessionRecord> = {}): SessionRecord {
+    return {
+        mode,
+        start: end - minutes * 60 * 1000,
+        end,
+        plannedSeconds: 25 * 60,
+        actualSeconds: minutes * 60,
+        pauseCount: 0,
+        outcome,
+        ...extra
+    };
+}